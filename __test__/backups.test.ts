@@ -0,0 +1,235 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CorruptedVaultError } from "../src/crypto/errors";
+import { computeChecksum } from "../src/crypto/seal";
+import {
+  createBackup,
+  listBackups,
+  restoreBackup,
+  selectExpiredBackups,
+  withAutomaticBackups,
+} from "../src/storage/backups";
+import { createMemoryVaultStorage } from "../src/storage/memoryStorage";
+import { EncryptedVault, VaultBackup, VaultStorage } from "../src/types";
+
+const encrypted = async (data: string): Promise<EncryptedVault> => ({
+  data,
+  salt: "c2FsdA==",
+  iv: "aXY=",
+  version: "1.0.0",
+  metadata: {
+    name: "Perso",
+    createdAt: "2024-06-01T00:00:00.000Z",
+    lastModified: "2024-06-01T00:00:00.000Z",
+    entryCount: 3,
+    checksum: await computeChecksum(data),
+  },
+});
+
+const backup = (date: string): VaultBackup => ({
+  id: date,
+  vaultId: "perso",
+  createdAt: new Date(date),
+  revision: "r",
+  size: 1,
+});
+
+describe("selectExpiredBackups", () => {
+  it("keeps the most recent backup of the last periods of each tier", () => {
+    const backups = [
+      "2024-06-03T12:00:00.000Z",
+      "2024-06-03T11:00:00.000Z",
+      "2024-06-03T10:30:00.000Z",
+      "2024-06-02T09:00:00.000Z",
+      "2024-06-01T09:00:00.000Z",
+    ].map(backup);
+
+    const expired = selectExpiredBackups(backups, {
+      hourly: 2,
+      daily: 2,
+      weekly: 0,
+      monthly: 0,
+    });
+
+    expect(expired.map((item) => item.id)).toEqual([
+      "2024-06-03T10:30:00.000Z",
+      "2024-06-01T09:00:00.000Z",
+    ]);
+  });
+
+  it("starts weeks on Monday and months on the first day", () => {
+    const backups = [
+      "2024-05-26T09:00:00.000Z", // Sunday
+      "2024-06-01T09:00:00.000Z", // Saturday
+      "2024-06-02T09:00:00.000Z", // Sunday
+      "2024-06-03T09:00:00.000Z", // Monday
+    ].map(backup);
+
+    const expired = selectExpiredBackups(backups, {
+      hourly: 0,
+      daily: 0,
+      weekly: 2,
+      monthly: 2,
+    });
+
+    expect(expired.map((item) => item.id)).toEqual([
+      "2024-06-01T09:00:00.000Z",
+    ]);
+  });
+
+  it("always keeps the most recent backup", () => {
+    const expired = selectExpiredBackups(
+      [backup("2024-06-01T09:00:00.000Z"), backup("2024-06-02T09:00:00.000Z")],
+      { hourly: 0, daily: 0, weekly: 0, monthly: 0 }
+    );
+
+    expect(expired.map((item) => item.id)).toEqual([
+      "2024-06-01T09:00:00.000Z",
+    ]);
+  });
+});
+
+describe("Backups", () => {
+  let storage: VaultStorage;
+
+  beforeEach(() => {
+    storage = createMemoryVaultStorage();
+  });
+
+  it("creates timestamped backups and prunes the expired ones", async () => {
+    const retention = { hourly: 2, daily: 2, weekly: 0, monthly: 0 };
+    for (const date of [
+      "2024-06-01T09:00:00.000Z",
+      "2024-06-02T09:00:00.000Z",
+      "2024-06-03T10:00:00.000Z",
+      "2024-06-03T11:00:00.000Z",
+      "2024-06-03T12:00:00.000Z",
+    ]) {
+      await createBackup(storage, "perso", await encrypted(date), {
+        now: new Date(date),
+        retention,
+      });
+    }
+
+    expect((await storage.list()).map((info) => info.id)).toEqual([
+      expect.stringMatching(/^perso--20240602T090000000Z-[0-9a-f]{8}$/),
+      expect.stringMatching(/^perso--20240603T110000000Z-[0-9a-f]{8}$/),
+      expect.stringMatching(/^perso--20240603T120000000Z-[0-9a-f]{8}$/),
+    ]);
+  });
+
+  it("keeps apart the backups created in the same millisecond", async () => {
+    const now = new Date("2024-06-01T09:00:00.000Z");
+    const ids = new Set<string>();
+
+    for (const data of ["v1", "v2", "v3", "v4", "v5", "v6"]) {
+      const created = await createBackup(
+        storage,
+        "perso",
+        await encrypted(data),
+        { now }
+      );
+      ids.add(created.id);
+
+      expect((await storage.list()).map((info) => info.id)).toEqual([
+        created.id,
+      ]);
+      expect((await restoreBackup(storage, created.id)).data).toBe(data);
+    }
+    expect(ids.size).toBe(6);
+  });
+
+  it("never deletes the backup it just created", async () => {
+    const retention = { hourly: 1, daily: 1, weekly: 0, monthly: 0 };
+    await createBackup(storage, "perso", await encrypted("v2"), {
+      now: new Date("2024-06-02T09:00:00.000Z"),
+      retention,
+    });
+
+    const older = await createBackup(storage, "perso", await encrypted("v1"), {
+      now: new Date("2024-06-01T09:00:00.000Z"),
+      retention,
+    });
+
+    expect((await restoreBackup(storage, older.id)).data).toBe("v1");
+  });
+
+  it("rejects vault ids too long to name their backups", async () => {
+    const vaultId = "v".repeat(99);
+
+    await expect(
+      createBackup(storage, vaultId, await encrypted("v1"))
+    ).rejects.toMatchObject({ code: "INVALID_STORAGE_ID" });
+    expect(
+      await createBackup(storage, vaultId.slice(1), await encrypted("v1"))
+    ).toMatchObject({ vaultId: vaultId.slice(1) });
+  });
+
+  it("lists the backups of a vault with their metadata", async () => {
+    const vault = await encrypted("v1");
+    const created = await createBackup(storage, "perso", vault, {
+      now: new Date("2024-06-01T09:00:00.000Z"),
+    });
+    await createBackup(storage, "perso", await encrypted("v2"), {
+      now: new Date("2024-06-02T09:00:00.000Z"),
+    });
+    await createBackup(storage, "travail", await encrypted("t1"));
+    await storage.save("perso", vault);
+
+    const backups = await listBackups(storage, "perso");
+
+    expect(backups.map((item) => item.id)).toEqual([
+      expect.stringMatching(/^perso--20240602T090000000Z-[0-9a-f]{8}$/),
+      expect.stringMatching(/^perso--20240601T090000000Z-[0-9a-f]{8}$/),
+    ]);
+    expect(backups[1]).toEqual(created);
+    expect(backups[1]).toMatchObject({
+      vaultId: "perso",
+      createdAt: new Date("2024-06-01T09:00:00.000Z"),
+      metadata: { name: "Perso", entryCount: 3 },
+    });
+  });
+
+  it("restores a backup after verifying its checksum", async () => {
+    const vault = await encrypted("v1");
+    const { id } = await createBackup(storage, "perso", vault);
+
+    expect(await restoreBackup(storage, id)).toEqual(vault);
+
+    await storage.save(id, { ...vault, data: "altéré" });
+    await expect(restoreBackup(storage, id)).rejects.toBeInstanceOf(
+      CorruptedVaultError
+    );
+  });
+
+  it("reports a missing backup", async () => {
+    await storage.save("perso", await encrypted("v1"));
+
+    await expect(
+      restoreBackup(storage, "perso--20240601T090000000Z-00000000")
+    ).rejects.toMatchObject({ code: "BACKUP_NOT_FOUND" });
+    await expect(restoreBackup(storage, "perso")).rejects.toMatchObject({
+      code: "BACKUP_NOT_FOUND",
+    });
+  });
+
+  it("backs up every saved vault", async () => {
+    const target = createMemoryVaultStorage();
+    const vaults = withAutomaticBackups(storage, target);
+
+    const revision = await vaults.save("perso", await encrypted("v1"));
+
+    expect((await storage.load("perso"))?.revision).toBe(revision);
+    const [saved] = await listBackups(target, "perso");
+    expect(saved).toMatchObject({ vaultId: "perso", revision });
+  });
+
+  it("saves nothing when the vault id is too long to be backed up", async () => {
+    const target = createMemoryVaultStorage();
+    const vaults = withAutomaticBackups(storage, target);
+
+    await expect(
+      vaults.save("v".repeat(99), await encrypted("v1"))
+    ).rejects.toMatchObject({ code: "INVALID_STORAGE_ID" });
+    expect(await storage.list()).toEqual([]);
+  });
+});
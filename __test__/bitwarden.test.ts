@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import { importBitwarden } from "../src/importExport/bitwarden";
+import { ImportExportError } from "../src/importExport/errors";
+import { EntryCategory, FieldType } from "../src/types";
+import { addEntry, createVault } from "../src/vault/vault";
+
+describe("Bitwarden Import Module", () => {
+  const bitwardenExport = {
+    encrypted: false,
+    folders: [{ id: "f1", name: "Perso/Banques" }],
+    items: [
+      {
+        id: "i1",
+        type: 1,
+        name: "Banque",
+        notes: "Agence centre",
+        favorite: true,
+        folderId: "f1",
+        login: {
+          uris: [
+            { uri: "https://banque.fr" },
+            { uri: "androidapp://fr.banque" },
+          ],
+          username: "jean",
+          password: "Secret123!",
+          totp: "JBSWY3DPEHPK3PXP",
+        },
+        fields: [
+          { name: "Question", value: "Chat", type: 0 },
+          { name: "PIN", value: "1234", type: 1 },
+          { name: "Pro", value: "true", type: 2 },
+          { name: "Lien", value: null, type: 3 },
+        ],
+        passwordHistory: [
+          { password: "Ancien123!", lastUsedDate: "2023-01-01T00:00:00.000Z" },
+        ],
+        creationDate: "2022-05-01T10:00:00.000Z",
+        revisionDate: "2023-06-01T10:00:00.000Z",
+      },
+      { id: "i2", type: 2, name: "Wifi", notes: "Code: abcd" },
+      {
+        id: "i3",
+        type: 3,
+        name: "Visa",
+        card: {
+          cardholderName: "Jean Dupont",
+          brand: "Visa",
+          number: "4111111111111111",
+          expMonth: "3",
+          expYear: "2030",
+          code: "123",
+        },
+      },
+      {
+        id: "i4",
+        type: 4,
+        name: "Identité",
+        identity: {
+          firstName: "Jean",
+          lastName: "Dupont",
+          email: "pas-un-email",
+          username: "jdupont",
+          passportNumber: "12AB34567",
+        },
+      },
+      { id: "i5", type: 5, name: "Clé SSH", sshKey: { privateKey: "..." } },
+      { id: "i6", type: 1, name: "", login: { username: "anonyme" } },
+    ],
+  };
+  const json = JSON.stringify(bitwardenExport);
+
+  it("importe les éléments avec la bonne catégorie", () => {
+    const result = importBitwarden(json);
+
+    expect(result.vault.name).toBe("Bitwarden");
+    expect(result.importedCount).toBe(4);
+    expect(result.skippedCount).toBe(2);
+    expect(result.vault.entries.map((entry) => entry.category)).toEqual([
+      EntryCategory.LOGIN,
+      EntryCategory.SECURE_NOTE,
+      EntryCategory.CREDIT_CARD,
+      EntryCategory.IDENTITY,
+    ]);
+  });
+
+  it("convertit les identifiants, dossiers et champs personnalisés", () => {
+    const [login] = importBitwarden(json).vault.entries;
+
+    expect(login).toMatchObject({
+      title: "Banque",
+      username: "jean",
+      password: "Secret123!",
+      url: "https://banque.fr",
+      notes: "Agence centre",
+      tags: ["Perso/Banques"],
+      favorite: true,
+      createdAt: new Date("2022-05-01T10:00:00.000Z"),
+      updatedAt: new Date("2023-06-01T10:00:00.000Z"),
+    });
+    expect(
+      login.customFields?.map(({ name, value, type, hidden }) => ({
+        name,
+        value,
+        type,
+        hidden,
+      }))
+    ).toEqual([
+      {
+        name: "URL 2",
+        value: "androidapp://fr.banque",
+        type: FieldType.URL,
+        hidden: false,
+      },
+      { name: "Question", value: "Chat", type: FieldType.TEXT, hidden: false },
+      { name: "PIN", value: "1234", type: FieldType.PASSWORD, hidden: true },
+      { name: "Pro", value: "true", type: FieldType.TEXT, hidden: false },
+    ]);
+    expect(login.totp).toEqual({
+      type: "totp",
+      secret: "JBSWY3DPEHPK3PXP",
+      algorithm: "SHA1",
+      digits: 6,
+      period: 30,
+    });
+  });
+
+  it("convertit les cartes et identités en champs personnalisés", () => {
+    const [, , card, identity] = importBitwarden(json).vault.entries;
+    const fieldsOf = (entry: typeof card) =>
+      Object.fromEntries(
+        (entry.customFields || []).map((field) => [field.name, field])
+      );
+
+    expect(fieldsOf(card)["Card number"]).toMatchObject({
+      value: "4111111111111111",
+      hidden: true,
+    });
+    expect(fieldsOf(card)["Expiration"].value).toBe("03/2030");
+    expect(identity.username).toBe("jdupont");
+    // Un email invalide est conservé comme texte
+    expect(fieldsOf(identity)["Email"]).toMatchObject({
+      value: "pas-un-email",
+      type: FieldType.TEXT,
+    });
+    expect(fieldsOf(identity)["Passport number"].hidden).toBe(true);
+  });
+
+  it("signale les éléments et parties non supportés", () => {
+    const { errors } = importBitwarden(json);
+    const warnings = errors.filter((error) => error.severity === "warning");
+    const failures = errors.filter((error) => error.severity === "error");
+
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      '"Banque": Linked custom field "Lien" is not supported',
+      '"Banque": Password history was not imported',
+    ]);
+    expect(failures).toHaveLength(2);
+    expect(failures[0]).toMatchObject({
+      message: '"Clé SSH": unsupported Bitwarden item type 5',
+      data: { id: "i5" },
+    });
+    expect(failures[1].field).toBe("title");
+  });
+
+  it("ajoute les entrées au vault cible", () => {
+    const { vault: target } = addEntry(createVault({ name: "Perso" }), {
+      title: "Existant",
+    });
+    const { vault } = importBitwarden(json, { vault: target });
+
+    expect(vault.name).toBe("Perso");
+    expect(vault.entries).toHaveLength(5);
+    expect(vault.entries[0]).toEqual(target.entries[0]);
+  });
+
+  it("rejette les exports chiffrés ou invalides", () => {
+    expect(() =>
+      importBitwarden(JSON.stringify({ encrypted: true, items: [] }))
+    ).toThrow(ImportExportError);
+    expect(() => importBitwarden("{}")).toThrow("missing items");
+    expect(() => importBitwarden("pas du json")).toThrow(ImportExportError);
+  });
+});
@@ -88,7 +88,7 @@ describe("Bulk Operations Module", () => {
   });
 
   describe("bulkDeleteEntries", () => {
-    it("supprime plusieurs entrées en une seule opération", () => {
+    it("place plusieurs entrées dans la corbeille en une seule opération", () => {
       // D'abord ajouter les entrées
       const { vault: vaultWithEntries, entries } = bulkAddEntries(
         testVault,
@@ -101,19 +101,19 @@ describe("Bulk Operations Module", () => {
       // Supprimer ces entrées
       const updatedVault = bulkDeleteEntries(vaultWithEntries, idsToDelete);
 
-      // Il ne devrait rester qu'une entrée
-      expect(updatedVault.entries.length).toBe(1);
+      // Il ne devrait rester qu'une entrée hors de la corbeille
+      expect(updatedVault.entries.filter((e) => !e.deletedAt).length).toBe(1);
 
       // Vérifier que les bonnes entrées ont été supprimées
       expect(
-        updatedVault.entries.find((e) => e.id === idsToDelete[0])
-      ).toBeUndefined();
+        updatedVault.entries.find((e) => e.id === idsToDelete[0])?.deletedAt
+      ).toBeInstanceOf(Date);
       expect(
-        updatedVault.entries.find((e) => e.id === idsToDelete[1])
-      ).toBeUndefined();
+        updatedVault.entries.find((e) => e.id === idsToDelete[1])?.deletedAt
+      ).toBeInstanceOf(Date);
       expect(
-        updatedVault.entries.find((e) => e.id === entries[2].id)
-      ).toBeDefined();
+        updatedVault.entries.find((e) => e.id === entries[2].id)?.deletedAt
+      ).toBeUndefined();
     });
 
     it("ne modifie pas le vault si aucun ID n'est trouvé", () => {
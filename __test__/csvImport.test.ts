@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "../src/importExport/csv";
+import { importCsv } from "../src/importExport/csvImport";
+import { detectCsvPreset } from "../src/importExport/csvPresets";
+import { ImportExportError } from "../src/importExport/errors";
+import { exportVault } from "../src/importExport/export";
+import { EntryCategory, FieldType } from "../src/types";
+import { createCustomField } from "../src/vault/customFields";
+import { addEntry, createVault } from "../src/vault/vault";
+
+describe("CSV Import Module", () => {
+  describe("parseCsv", () => {
+    it("lit les champs entre guillemets sur plusieurs lignes", () => {
+      const { records, errors } = parseCsv(
+        '\uFEFFa,b,c\r\n"1,5","dit ""oui""","ligne 1\nligne 2"\n\nx,,z'
+      );
+
+      expect(errors).toEqual([]);
+      expect(records).toEqual([
+        { fields: ["a", "b", "c"], line: 1 },
+        { fields: ["1,5", 'dit "oui"', "ligne 1\nligne 2"], line: 2 },
+        { fields: ["x", "", "z"], line: 5 },
+      ]);
+    });
+
+    it("signale les enregistrements mal formés avec leur ligne", () => {
+      const { records, errors } = parseCsv('a,b\n"x"y,z\nok,ok\n"non fermé');
+
+      expect(records.map((record) => record.line)).toEqual([1, 3]);
+      expect(errors).toEqual([
+        { line: 2, message: "Unexpected text after a quoted field" },
+        { line: 4, message: "Unterminated quoted field" },
+      ]);
+    });
+  });
+
+  describe("detectCsvPreset", () => {
+    it("reconnaît les en-têtes des navigateurs et gestionnaires", () => {
+      expect(
+        detectCsvPreset(["name", "url", "username", "password", "note"])
+      ).toBe("chrome");
+      expect(detectCsvPreset(["name", "url", "username", "password"])).toBe(
+        "edge"
+      );
+      expect(
+        detectCsvPreset(
+          "url,username,password,totp,extra,name,grouping,fav".split(",")
+        )
+      ).toBe("lastpass");
+      expect(detectCsvPreset(["site", "identifiant"])).toBeUndefined();
+    });
+  });
+
+  describe("importCsv", () => {
+    it("importe un export Chrome détecté automatiquement", () => {
+      const csv = [
+        "name,url,username,password,note",
+        'Banque,https://banque.fr,jean,Secret123!,"Agence, centre"',
+        ",https://forum.fr/login,jean42,Forum123!,",
+      ].join("\n");
+
+      const result = importCsv(csv);
+
+      expect(result.importedCount).toBe(2);
+      expect(result.vault.entries[0]).toMatchObject({
+        title: "Banque",
+        url: "https://banque.fr",
+        username: "jean",
+        password: "Secret123!",
+        notes: "Agence, centre",
+      });
+      // Titre déduit de l'URL
+      expect(result.vault.entries[1].title).toBe("forum.fr");
+    });
+
+    it("importe un export Firefox avec ses dates", () => {
+      const csv = [
+        '"url","username","password","httpRealm","formActionOrigin","guid","timeCreated","timeLastUsed","timePasswordChanged"',
+        '"https://mail.fr","jean","Mail123!",,"https://mail.fr","{abc}","1651399200000","1685613600000","1685613600000"',
+      ].join("\r\n");
+
+      const [entry] = importCsv(csv).vault.entries;
+
+      expect(entry.title).toBe("mail.fr");
+      expect(entry.createdAt).toEqual(new Date(1651399200000));
+      expect(entry.updatedAt).toEqual(new Date(1685613600000));
+      expect(entry.customFields).toEqual([]);
+    });
+
+    it("importe un export LastPass avec dossier, favori et TOTP", () => {
+      const csv = [
+        "url,username,password,totp,extra,name,grouping,fav",
+        "https://social.fr,jean,Social123!,JBSWY3DPEHPK3PXP,Notes,Social,Perso\\Réseaux,1",
+      ].join("\n");
+
+      const [entry] = importCsv(csv, "lastpass").vault.entries;
+
+      expect(entry).toMatchObject({
+        title: "Social",
+        notes: "Notes",
+        tags: ["Perso\\Réseaux"],
+        favorite: true,
+      });
+      expect(entry.totp).toMatchObject({
+        type: "totp",
+        secret: "JBSWY3DPEHPK3PXP",
+      });
+      expect(entry.customFields).toEqual([]);
+    });
+
+    it("conserve un secret TOTP non reconnu en champ caché", () => {
+      const csv = [
+        "title,url,username,password,otpauth",
+        "Jeu,https://jeu.fr,jean,Jeu12345!,steam://ABCDEF",
+      ].join("\n");
+
+      const { vault, errors } = importCsv(csv);
+
+      expect(vault.entries[0].totp).toBeUndefined();
+      expect(vault.entries[0].customFields?.[0]).toMatchObject({
+        name: "TOTP",
+        value: "steam://ABCDEF",
+        type: FieldType.PASSWORD,
+        hidden: true,
+      });
+      expect(errors[0]).toMatchObject({ line: 2, severity: "warning" });
+    });
+
+    it("applique un mapping personnalisé", () => {
+      const csv = ["Site;Compte;Secret;Code", "Banque;jean;Secret123!;1234"]
+        .map((line) => line.replace(/;/g, ","))
+        .join("\n");
+
+      const [entry] = importCsv(csv, {
+        columns: {
+          site: "title",
+          compte: "username",
+          secret: "password",
+          code: { customField: "PIN", type: FieldType.PASSWORD, hidden: true },
+        },
+      }).vault.entries;
+
+      expect(entry).toMatchObject({
+        title: "Banque",
+        username: "jean",
+        password: "Secret123!",
+      });
+      expect(entry.customFields?.[0]).toMatchObject({
+        name: "PIN",
+        value: "1234",
+        hidden: true,
+      });
+    });
+
+    it("réimporte un export CSV SafeKeys", async () => {
+      const { vault } = addEntry(createVault({ name: "Export" }), {
+        title: "Banque",
+        password: "Secret123!",
+        category: EntryCategory.BANK_ACCOUNT,
+        tags: ["finance", "perso"],
+        favorite: true,
+        customFields: [createCustomField("IBAN", "FR76 0000")],
+      });
+      const csv = await exportVault(vault, {
+        format: "csv",
+        includePasswords: true,
+      });
+
+      const [entry] = importCsv(csv).vault.entries;
+      const [original] = vault.entries;
+
+      expect(entry).toMatchObject({
+        title: "Banque",
+        password: "Secret123!",
+        category: EntryCategory.BANK_ACCOUNT,
+        tags: ["finance", "perso"],
+        favorite: true,
+        createdAt: original.createdAt,
+        updatedAt: original.updatedAt,
+      });
+      expect(entry.customFields?.[0]).toMatchObject({
+        name: "IBAN",
+        value: "FR76 0000",
+      });
+    });
+
+    it("signale les lignes invalides avec leur numéro", () => {
+      const csv = [
+        "name,url,username,password",
+        "Banque,https://banque.fr,jean,Secret123!",
+        "Trop,de,champs,ici,en plus",
+        '"Cassé"x,,,',
+        ",,anonyme,Secret123!",
+        "Forum,forum.fr,jean,Forum123!",
+      ].join("\n");
+
+      const result = importCsv(csv);
+
+      expect(result.importedCount).toBe(2);
+      expect(result.skippedCount).toBe(3);
+      expect(
+        result.errors.map(({ line, severity }) => [line, severity])
+      ).toEqual([
+        [3, "error"],
+        [4, "error"],
+        [5, "error"],
+      ]);
+      // Une URL invalide est conservée comme champ texte
+      expect(result.vault.entries[1].customFields?.[0]).toMatchObject({
+        name: "URL",
+        value: "forum.fr",
+      });
+    });
+
+    it("rejette un fichier vide ou un preset inconnu", () => {
+      expect(() => importCsv("")).toThrow(ImportExportError);
+      expect(() => importCsv("a,b\n1,2", "inconnu" as never)).toThrow(
+        "Unknown CSV preset"
+      );
+      expect(() => importCsv("a,b\n1,2", "constructor" as never)).toThrow(
+        "Unknown CSV preset"
+      );
+    });
+  });
+});
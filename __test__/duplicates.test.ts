@@ -0,0 +1,313 @@
+import { describe, expect, it } from "vitest";
+import { importCsv } from "../src/importExport/csvImport";
+import {
+  mergeEntries,
+  resolveDuplicates,
+} from "../src/importExport/duplicates";
+import { exportVault } from "../src/importExport/export";
+import { importVault } from "../src/importExport/import";
+import { FieldType, VaultEntry } from "../src/types";
+import { createCustomField } from "../src/vault/customFields";
+import { createEntry } from "../src/vault/entry";
+import { addEntry, createVault } from "../src/vault/vault";
+
+const datedEntry = (
+  data: Parameters<typeof createEntry>[0],
+  updatedAt: string
+): VaultEntry => ({
+  ...createEntry(data),
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date(updatedAt),
+});
+
+describe("Duplicates Module", () => {
+  describe("resolveDuplicates", () => {
+    const existing = datedEntry(
+      {
+        title: "Banque",
+        username: "jean",
+        password: "Ancien123!",
+        url: "https://www.banque.fr/login",
+      },
+      "2024-02-01T00:00:00.000Z"
+    );
+
+    it("détecte les doublons par id, hôte et identifiant, ou titre", () => {
+      const sameId = { ...existing, title: "Autre", url: undefined };
+      const sameHost = createEntry({
+        title: "Ma banque",
+        username: "Jean",
+        password: "x",
+        url: "https://banque.fr/compte",
+      });
+      const sameTitle = createEntry({ title: " banque ", username: "jean" });
+      const other = createEntry({ title: "Banque", username: "marie" });
+
+      const { duplicates, entries } = resolveDuplicates(
+        [existing],
+        [
+          { entry: sameId },
+          { entry: sameHost, line: 3 },
+          { entry: sameTitle },
+          { entry: other },
+        ],
+        "skip"
+      );
+
+      expect(duplicates.map((duplicate) => duplicate.match)).toEqual([
+        "id",
+        "url",
+        "title",
+      ]);
+      expect(duplicates[1]).toEqual({
+        existingId: existing.id,
+        importedId: sameHost.id,
+        title: "Ma banque",
+        match: "url",
+        action: "skip",
+        line: 3,
+      });
+      expect(entries).toEqual([existing, other]);
+    });
+
+    it("remplace l'entrée existante en conservant son id", () => {
+      const imported = createEntry({
+        title: "Banque",
+        username: "jean",
+        password: "Nouveau123!",
+      });
+
+      const { entries, importedCount } = resolveDuplicates(
+        [existing],
+        [{ entry: imported }],
+        "overwrite"
+      );
+
+      expect(importedCount).toBe(1);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].id).toBe(existing.id);
+      expect(entries[0].password).toBe("Nouveau123!");
+      expect(entries[0].url).toBeUndefined();
+      expect(entries[0].createdAt).toEqual(existing.createdAt);
+      expect(entries[0].passwordHistory?.map(({ value }) => value)).toEqual([
+        "Ancien123!",
+      ]);
+      expect(entries[0].revisions?.[0].entry).toMatchObject({
+        url: existing.url,
+      });
+    });
+
+    it("respecte la limite d'historique du vault en remplaçant", () => {
+      const imported = createEntry({
+        title: "Banque",
+        username: "jean",
+        password: "Nouveau123!",
+      });
+
+      const { entries } = resolveDuplicates(
+        [existing],
+        [{ entry: imported }],
+        "overwrite",
+        { passwordHistoryLimit: 0 }
+      );
+
+      expect(entries[0].passwordHistory).toEqual([]);
+    });
+
+    it("garde les deux entrées avec un nouvel id si les ids sont identiques", () => {
+      const { entries, duplicates } = resolveDuplicates(
+        [existing],
+        [{ entry: { ...existing } }],
+        "keepBoth"
+      );
+
+      expect(entries).toHaveLength(2);
+      expect(entries[1].id).not.toBe(existing.id);
+      expect(duplicates[0].importedId).toBe(entries[1].id);
+    });
+
+    it("ignore les entrées de la corbeille", () => {
+      const trashed = { ...existing, deletedAt: new Date() };
+      const imported = createEntry({ title: "Banque", username: "jean" });
+      const sameId = { ...existing, title: "Autre", url: undefined };
+
+      const { entries, duplicates } = resolveDuplicates(
+        [trashed],
+        [{ entry: imported }, { entry: sameId }],
+        "skip"
+      );
+
+      expect(duplicates).toEqual([]);
+      expect(entries.slice(0, 2)).toEqual([trashed, imported]);
+      expect(entries[2]).toEqual({ ...sameId, id: expect.any(String) });
+      expect(entries[2].id).not.toBe(existing.id);
+    });
+
+    it("détecte les doublons au sein des entrées importées", () => {
+      const first = createEntry({ title: "Forum", username: "jean" });
+      const repeated = createEntry({ title: "Forum", username: "jean" });
+
+      const { entries, importedCount, duplicates } = resolveDuplicates(
+        [existing],
+        [{ entry: first }, { entry: repeated, line: 4 }],
+        "skip"
+      );
+
+      expect(importedCount).toBe(1);
+      expect(entries).toEqual([existing, first]);
+      expect(duplicates).toEqual([
+        {
+          existingId: first.id,
+          importedId: repeated.id,
+          title: "Forum",
+          match: "title",
+          action: "skip",
+          line: 4,
+        },
+      ]);
+    });
+  });
+
+  describe("mergeEntries", () => {
+    it("privilégie l'entrée la plus récente et combine tags et champs", () => {
+      const existing = datedEntry(
+        {
+          title: "Forum",
+          username: "jean",
+          password: "Ancien123!",
+          notes: "Compte principal",
+          tags: ["perso"],
+          customFields: [
+            createCustomField("PIN", "1234", FieldType.PASSWORD, true),
+            createCustomField("Question", "Chien"),
+          ],
+        },
+        "2024-02-01T00:00:00.000Z"
+      );
+      const imported = datedEntry(
+        {
+          title: "Forum",
+          username: "jean",
+          password: "Nouveau123!",
+          url: "https://forum.fr",
+          tags: ["import", "perso"],
+          customFields: [
+            createCustomField("PIN", "9999", FieldType.PASSWORD, true),
+          ],
+        },
+        "2024-03-01T00:00:00.000Z"
+      );
+
+      const merged = mergeEntries(existing, imported);
+
+      expect(merged.id).toBe(existing.id);
+      expect(merged.password).toBe("Nouveau123!");
+      expect(merged.url).toBe("https://forum.fr");
+      expect(merged.notes).toBe("Compte principal");
+      expect(merged.tags).toEqual(["import", "perso"]);
+      expect(
+        merged.customFields?.map((field) => [field.name, field.value])
+      ).toEqual([
+        ["PIN", "9999"],
+        ["Question", "Chien"],
+      ]);
+      expect(merged.updatedAt.getTime()).toBeGreaterThan(
+        imported.updatedAt.getTime()
+      );
+      expect(merged.passwordHistory?.map(({ value }) => value)).toEqual([
+        "Ancien123!",
+      ]);
+    });
+
+    it("garde le mot de passe le plus ancien dans l'historique", () => {
+      const existing = datedEntry(
+        { title: "Forum", password: "Actuel123!" },
+        "2024-03-01T00:00:00.000Z"
+      );
+      const imported: VaultEntry = {
+        ...datedEntry(
+          { title: "Forum", password: "Importe123!" },
+          "2024-02-01T00:00:00.000Z"
+        ),
+        passwordHistory: [
+          {
+            value: "Vieux123!",
+            changedAt: new Date("2024-01-15T00:00:00.000Z"),
+          },
+        ],
+      };
+
+      const merged = mergeEntries(existing, imported);
+
+      expect(merged.password).toBe("Actuel123!");
+      expect(merged.passwordHistory?.map(({ value }) => value)).toEqual([
+        "Importe123!",
+        "Vieux123!",
+      ]);
+    });
+  });
+
+  describe("imports", () => {
+    const { vault: target } = addEntry(createVault({ name: "Perso" }), {
+      title: "Banque",
+      username: "jean",
+      password: "Ancien123!",
+      url: "https://banque.fr",
+    });
+    const csv = [
+      "name,url,username,password,note",
+      "Banque,https://banque.fr,jean,Nouveau123!,",
+      "Forum,https://forum.fr,jean,Forum123!,",
+    ].join("\n");
+
+    it("compte les doublons ignorés parmi les entrées ignorées", () => {
+      const result = importCsv(csv, undefined, {
+        vault: target,
+        duplicates: "skip",
+      });
+
+      expect(result.importedCount).toBe(1);
+      expect(result.skippedCount).toBe(1);
+      expect(result.vault.entries.map((entry) => entry.title)).toEqual([
+        "Banque",
+        "Forum",
+      ]);
+      expect(result.duplicates).toEqual([
+        expect.objectContaining({
+          existingId: target.entries[0].id,
+          match: "url",
+          action: "skip",
+          line: 2,
+        }),
+      ]);
+    });
+
+    it("garde les deux entrées par défaut", () => {
+      const result = importCsv(csv, undefined, { vault: target });
+
+      expect(result.importedCount).toBe(2);
+      expect(result.vault.entries).toHaveLength(3);
+      expect(result.duplicates?.[0].action).toBe("keepBoth");
+    });
+
+    it("fusionne un export SafeKeys dans un vault existant", async () => {
+      const exported = await exportVault(target, {
+        format: "json",
+        includePasswords: true,
+      });
+      const updated = {
+        ...target,
+        entries: [{ ...target.entries[0], notes: "Agence centre" }],
+      };
+
+      const result = await importVault(exported, {
+        vault: updated,
+        duplicates: "merge",
+      });
+
+      expect(result.vault.entries).toHaveLength(1);
+      expect(result.vault.entries[0].notes).toBe("Agence centre");
+      expect(result.duplicates[0].match).toBe("id");
+    });
+  });
+});
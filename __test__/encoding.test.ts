@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  base32ToBytes,
+  base64ToBytes,
+  bytesToBase32,
+  bytesToBase64,
+  bytesToHex,
+  CROCKFORD_BASE32_ALPHABET,
+  isBase32,
+} from "../src/utils/encoding";
+
+describe("Encoding utilities", () => {
+  const text = (value: string) => new TextEncoder().encode(value);
+
+  it("should round-trip base64", () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(100));
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+    expect(bytesToBase64(text("SafeKeys"))).toBe("U2FmZUtleXM=");
+  });
+
+  it("should encode hexadecimal", () => {
+    expect(bytesToHex(new Uint8Array([0, 15, 255]))).toBe("000fff");
+  });
+
+  it("should match the RFC 4648 base32 test vectors", () => {
+    expect(bytesToBase32(text("f"))).toBe("MY");
+    expect(bytesToBase32(text("foobar"))).toBe("MZXW6YTBOI");
+    expect(new TextDecoder().decode(base32ToBytes("MZXW6YTBOI"))).toBe(
+      "foobar"
+    );
+  });
+
+  it("should round-trip base32 with a custom alphabet", () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(20));
+    const encoded = bytesToBase32(bytes, CROCKFORD_BASE32_ALPHABET);
+
+    expect(encoded).toHaveLength(32);
+    expect(base32ToBytes(encoded, CROCKFORD_BASE32_ALPHABET)).toEqual(bytes);
+  });
+
+  it("should reject characters outside the alphabet", () => {
+    expect(() => base32ToBytes("MZ1")).toThrow("Invalid base32 character");
+  });
+
+  it("should only accept base32 strings an encoder can produce", () => {
+    expect(isBase32("MZXW6YTBOI")).toBe(true);
+    expect(isBase32("MY")).toBe(true);
+    expect(isBase32("MZX")).toBe(false);
+    expect(isBase32("mzxw6ytboi")).toBe(false);
+    expect(isBase32("MZXW6YTBO1")).toBe(false);
+    expect(isBase32("")).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvField, stringifyCsv } from "../src/importExport/csv";
+import { ImportExportError } from "../src/importExport/errors";
+import { CSV_EXPORT_COLUMNS, exportVault } from "../src/importExport/export";
+import { EntryCategory, FieldType, Vault } from "../src/types";
+import { createCustomField } from "../src/vault/customFields";
+import { addEntry, createVault, deleteEntry } from "../src/vault/vault";
+
+describe("Export Module", () => {
+  const createTestVault = (): Vault => {
+    let vault = createVault({ name: "Export" });
+    vault = addEntry(vault, {
+      title: "Banque, compte courant",
+      username: "jean",
+      password: 'mot"de"passe',
+      url: "https://banque.fr",
+      notes: "Ligne 1\nLigne 2",
+      category: EntryCategory.BANK_ACCOUNT,
+      tags: ["finance", "perso"],
+      favorite: true,
+      customFields: [
+        createCustomField("IBAN", "FR76 0000"),
+        createCustomField("PIN", "1234", FieldType.PASSWORD, true),
+      ],
+    }).vault;
+    vault = addEntry(vault, {
+      title: "Forum",
+      username: "jean42",
+      password: "secret",
+      category: EntryCategory.LOGIN,
+    }).vault;
+    return vault;
+  };
+
+  describe("escapeCsvField", () => {
+    it("échappe les virgules, guillemets et retours à la ligne", () => {
+      expect(escapeCsvField("simple")).toBe("simple");
+      expect(escapeCsvField("a,b")).toBe('"a,b"');
+      expect(escapeCsvField('il a dit "bonjour"')).toBe(
+        '"il a dit ""bonjour"""'
+      );
+      expect(escapeCsvField("a\nb")).toBe('"a\nb"');
+      expect(escapeCsvField("a\r\nb")).toBe('"a\r\nb"');
+    });
+
+    it("sépare les enregistrements par CRLF", () => {
+      expect(
+        stringifyCsv([
+          ["a", "b"],
+          ["c", "d"],
+        ])
+      ).toBe("a,b\r\nc,d");
+    });
+  });
+
+  describe("exportVault (CSV)", () => {
+    it("exporte un en-tête avec les colonnes fixes et les champs personnalisés", async () => {
+      const csv = await exportVault(createTestVault(), {
+        format: "csv",
+        includePasswords: true,
+      });
+      const header = csv.split("\r\n")[0];
+
+      expect(header).toBe(
+        [...CSV_EXPORT_COLUMNS, "field:IBAN", "field:PIN"].join(",")
+      );
+    });
+
+    it("produit des lignes conformes à la RFC 4180", async () => {
+      const vault = createTestVault();
+      const csv = await exportVault(vault, {
+        format: "csv",
+        includePasswords: true,
+      });
+      const [entry] = vault.entries;
+
+      expect(csv).toContain(
+        [
+          '"Banque, compte courant"',
+          "jean",
+          '"mot""de""passe"',
+          "",
+          "https://banque.fr",
+          '"Ligne 1\nLigne 2"',
+          "bank_account",
+          "finance;perso",
+          "true",
+          entry.createdAt.toISOString(),
+          entry.updatedAt.toISOString(),
+          "FR76 0000",
+          "1234",
+        ].join(",")
+      );
+      // Colonnes vides pour les champs absents
+      expect(csv).toMatch(
+        /\r\nForum,jean42,secret,,,,login,,false,[^,]+,[^,]+,,$/
+      );
+    });
+
+    it("masque les mots de passe et champs cachés sans includePasswords", async () => {
+      const csv = await exportVault(createTestVault(), {
+        format: "csv",
+        includePasswords: false,
+      });
+
+      expect(csv).not.toContain("passe");
+      expect(csv).not.toContain("secret");
+      expect(csv).not.toContain("1234");
+      expect(csv).toContain("FR76 0000");
+    });
+
+    it("filtre les entrées par catégorie", async () => {
+      const csv = await exportVault(createTestVault(), {
+        format: "csv",
+        includePasswords: true,
+        categories: [EntryCategory.LOGIN],
+      });
+
+      expect(csv.split("\r\n")).toHaveLength(2);
+      expect(csv).toContain("Forum");
+      expect(csv).not.toContain("Banque");
+      expect(csv).not.toContain("field:IBAN");
+    });
+
+    it("laisse les entrées de la corbeille hors de l'export", async () => {
+      const vault = createTestVault();
+      const trashed = deleteEntry(vault, vault.entries[1].id);
+
+      const csv = await exportVault(trashed, {
+        format: "csv",
+        includePasswords: true,
+      });
+      const withTrash = await exportVault(trashed, {
+        format: "csv",
+        includePasswords: true,
+        includeTrashed: true,
+      });
+
+      expect(csv.split("\r\n")).toHaveLength(2);
+      expect(csv).not.toContain("Forum");
+      expect(withTrash).toContain("Forum");
+    });
+
+    it("numérote les champs personnalisés portant le même nom", async () => {
+      const { vault } = addEntry(createVault({ name: "Export" }), {
+        title: "Codes",
+        customFields: [
+          createCustomField("Code", "A"),
+          createCustomField("Code", "B"),
+        ],
+      });
+      const csv = await exportVault(vault, {
+        format: "csv",
+        includePasswords: true,
+      });
+
+      expect(csv.split("\r\n")[0]).toMatch(/,field:Code,field:Code \(2\)$/);
+      expect(csv).toMatch(/,A,B$/);
+    });
+
+    it("refuse de chiffrer un export CSV", async () => {
+      await expect(
+        exportVault(createTestVault(), {
+          format: "csv",
+          includePasswords: true,
+          encrypted: true,
+        })
+      ).rejects.toThrow(ImportExportError);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { WrongPasswordError } from "../src/crypto/errors";
+import { ImportExportError } from "../src/importExport/errors";
+import { exportVault } from "../src/importExport/export";
+import { importVault } from "../src/importExport/import";
+import { EntryCategory, FieldType, Vault } from "../src/types";
+import { createCustomField } from "../src/vault/customFields";
+import { addEntry, createVault } from "../src/vault/vault";
+
+describe("Import Module", () => {
+  const password = "MotDePasse123!";
+
+  const createTestVault = (): Vault => {
+    let vault = createVault({
+      name: "Export",
+      settings: {
+        // Paramètres peu coûteux pour garder des tests rapides
+        security: {
+          lockTimeout: 15,
+          requireMasterPasswordOnStart: true,
+          maxFailedAttempts: 5,
+          kdf: {
+            algorithm: "argon2id",
+            iterations: 1,
+            memory: 64,
+            parallelism: 1,
+          },
+        },
+      },
+    });
+    vault = addEntry(vault, {
+      title: "Banque",
+      username: "jean",
+      password: "Secret123!",
+      category: EntryCategory.BANK_ACCOUNT,
+      tags: ["finance"],
+      customFields: [
+        createCustomField("IBAN", "FR76 0000"),
+        createCustomField("PIN", "1234", FieldType.PASSWORD, true),
+      ],
+    }).vault;
+    vault = addEntry(vault, {
+      title: "Note",
+      notes: "Contenu",
+      category: EntryCategory.SECURE_NOTE,
+    }).vault;
+    return vault;
+  };
+
+  it("réimporte un export JSON sans perte", async () => {
+    const vault = createTestVault();
+    const json = await exportVault(vault, {
+      format: "json",
+      includePasswords: true,
+    });
+
+    const result = await importVault(json);
+
+    expect(result.vault).toEqual(vault);
+    expect(result.vault.entries[0].createdAt).toBeInstanceOf(Date);
+    expect(result.importedCount).toBe(2);
+    expect(result.skippedCount).toBe(0);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("réimporte un export chiffré avec le mot de passe", async () => {
+    const vault = createTestVault();
+    const json = await exportVault(
+      vault,
+      { format: "json", includePasswords: true, encrypted: true },
+      password
+    );
+
+    expect(JSON.parse(json)).toHaveProperty("wrappedKey");
+    expect(json).not.toContain("Secret123!");
+    expect((await importVault(json, { password })).vault).toEqual(vault);
+    await expect(importVault(json)).rejects.toThrow(ImportExportError);
+    await expect(
+      importVault(json, { password: "Mauvais123!" })
+    ).rejects.toThrow(WrongPasswordError);
+  });
+
+  it("chiffre toujours le format vault", async () => {
+    const json = await exportVault(
+      createTestVault(),
+      { format: "vault", includePasswords: true },
+      password
+    );
+
+    expect(JSON.parse(json)).toHaveProperty("data");
+    await expect(
+      exportVault(createTestVault(), {
+        format: "vault",
+        includePasswords: true,
+      })
+    ).rejects.toThrow("password is required");
+  });
+
+  it("exporte sans secrets ni entrées hors catégories", async () => {
+    const json = await exportVault(createTestVault(), {
+      format: "json",
+      includePasswords: false,
+      categories: [EntryCategory.BANK_ACCOUNT],
+    });
+    const { vault } = await importVault(json);
+
+    expect(vault.entries).toHaveLength(1);
+    expect(vault.entries[0].password).toBeUndefined();
+    expect(vault.entries[0].customFields?.map((field) => field.value)).toEqual([
+      "FR76 0000",
+      "",
+    ]);
+  });
+
+  it("ignore et signale les entrées invalides", async () => {
+    const vault = createTestVault();
+    const data = JSON.parse(
+      await exportVault(vault, { format: "json", includePasswords: true })
+    );
+    data.entries[1].title = "";
+    data.entries.push(null);
+
+    const result = await importVault(JSON.stringify(data));
+
+    expect(result.importedCount).toBe(1);
+    expect(result.skippedCount).toBe(2);
+    expect(result.vault.entries).toEqual([vault.entries[0]]);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toMatchObject({
+      field: "title",
+      data: { id: vault.entries[1].id },
+    });
+    expect(result.errors[1].message).toContain("#3");
+  });
+
+  it("rejette les données qui ne sont pas un export", async () => {
+    await expect(importVault("pas du json")).rejects.toThrow(ImportExportError);
+    await expect(importVault('{"name": "Vault"}')).rejects.toThrow(
+      "Invalid vault data"
+    );
+  });
+});
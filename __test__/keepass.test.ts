@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import { ImportExportError } from "../src/importExport/errors";
+import { importKeePass } from "../src/importExport/keepass";
+import { parseXml } from "../src/importExport/xml";
+import { EntryCategory, FieldType } from "../src/types";
+
+describe("KeePass Import Module", () => {
+  const keePassXml = `<?xml version="1.0" encoding="utf-8" standalone="yes"?>
+<!-- Export KeePass -->
+<KeePassFile>
+  <Meta>
+    <DatabaseName>Mes mots de passe</DatabaseName>
+    <RecycleBinEnabled>True</RecycleBinEnabled>
+    <RecycleBinUUID>corbeille==</RecycleBinUUID>
+  </Meta>
+  <Root>
+    <Group>
+      <UUID>racine==</UUID>
+      <Name>Base</Name>
+      <Entry>
+        <UUID>entree1==</UUID>
+        <Tags>perso;important</Tags>
+        <Times>
+          <CreationTime>2022-05-01T10:00:00Z</CreationTime>
+          <LastModificationTime>2023-06-01T10:00:00Z</LastModificationTime>
+        </Times>
+        <String><Key>Title</Key><Value>Banque &amp; Co</Value></String>
+        <String><Key>UserName</Key><Value>jean</Value></String>
+        <String><Key>Password</Key><Value ProtectInMemory="True">Secret&lt;123&gt;!</Value></String>
+        <String><Key>URL</Key><Value>https://banque.fr</Value></String>
+        <String><Key>Notes</Key><Value><![CDATA[Ligne 1
+Ligne <2>]]></Value></String>
+        <String><Key>PIN</Key><Value ProtectInMemory="True">1234</Value></String>
+        <String><Key>Agence</Key><Value>Centre</Value></String>
+        <Binary><Key>scan.pdf</Key><Value Ref="0" /></Binary>
+        <History>
+          <Entry>
+            <String><Key>Title</Key><Value>Ancienne version</Value></String>
+          </Entry>
+        </History>
+      </Entry>
+      <Group>
+        <UUID>internet==</UUID>
+        <Name>Internet</Name>
+        <Group>
+          <UUID>email==</UUID>
+          <Name>Email</Name>
+          <Entry>
+            <UUID>entree2==</UUID>
+            <Times>
+              <CreationTime>AMRC2w4AAAA=</CreationTime>
+              <LastModificationTime>AMRC2w4AAAA=</LastModificationTime>
+            </Times>
+            <String><Key>Title</Key><Value>Mail</Value></String>
+            <String><Key>URL</Key><Value>mail.exemple.fr</Value></String>
+            <String><Key>Password</Key><Value Protected="True">chiffré==</Value></String>
+          </Entry>
+        </Group>
+      </Group>
+      <Group>
+        <UUID>notes==</UUID>
+        <Name>Notes</Name>
+        <Entry>
+          <String><Key>Title</Key><Value>Wifi</Value></String>
+          <String><Key>Notes</Key><Value>Code: abcd</Value></String>
+        </Entry>
+        <Entry>
+          <String><Key>Title</Key><Value /></String>
+          <String><Key>UserName</Key><Value>anonyme</Value></String>
+        </Entry>
+      </Group>
+      <Group>
+        <UUID>corbeille==</UUID>
+        <Name>Corbeille</Name>
+        <Entry>
+          <String><Key>Title</Key><Value>Supprimée</Value></String>
+        </Entry>
+      </Group>
+    </Group>
+  </Root>
+</KeePassFile>`;
+
+  describe("parseXml", () => {
+    it("analyse éléments, attributs, texte et CDATA", () => {
+      const root = parseXml(
+        `<?xml version="1.0"?><a x="1" y='&quot;2&quot;'>t&#233;<b/><![CDATA[<c>]]></a>`
+      );
+
+      expect(root).toEqual({
+        name: "a",
+        attributes: { x: "1", y: '"2"' },
+        children: [{ name: "b", attributes: {}, children: [], text: "" }],
+        text: "té<c>",
+      });
+    });
+
+    it("rejette un document mal formé", () => {
+      expect(() => parseXml("<a><b></a>")).toThrow(ImportExportError);
+      expect(() => parseXml("<a>")).toThrow("unclosed tag <a>");
+      expect(() => parseXml("texte")).toThrow("no root element");
+    });
+
+    it("rejette une référence de caractère hors Unicode", () => {
+      expect(() => parseXml("<a>&#x110000;</a>")).toThrow(ImportExportError);
+      expect(() => parseXml("<a>&#99999999;</a>")).toThrow(
+        "invalid character reference"
+      );
+      expect(() => parseXml("<a x='&#xD800;'/>")).toThrow(ImportExportError);
+    });
+  });
+
+  describe("importKeePass", () => {
+    it("importe les entrées hors historique et corbeille", () => {
+      const result = importKeePass(keePassXml);
+
+      expect(result.vault.name).toBe("Mes mots de passe");
+      expect(result.vault.entries.map((entry) => entry.title)).toEqual([
+        "Banque & Co",
+        "Mail",
+        "Wifi",
+      ]);
+      expect(result.importedCount).toBe(3);
+      expect(result.skippedCount).toBe(1);
+    });
+
+    it("convertit les champs standards et personnalisés", () => {
+      const [bank] = importKeePass(keePassXml).vault.entries;
+
+      expect(bank).toMatchObject({
+        username: "jean",
+        password: "Secret<123>!",
+        url: "https://banque.fr",
+        notes: "Ligne 1\nLigne <2>",
+        tags: ["perso", "important"],
+        category: EntryCategory.LOGIN,
+        createdAt: new Date("2022-05-01T10:00:00Z"),
+        updatedAt: new Date("2023-06-01T10:00:00Z"),
+      });
+      expect(
+        bank.customFields?.map(({ name, value, type, hidden }) => ({
+          name,
+          value,
+          type,
+          hidden,
+        }))
+      ).toEqual([
+        { name: "PIN", value: "1234", type: FieldType.PASSWORD, hidden: true },
+        {
+          name: "Agence",
+          value: "Centre",
+          type: FieldType.TEXT,
+          hidden: false,
+        },
+      ]);
+    });
+
+    it("transforme les groupes en tags hiérarchiques", () => {
+      const [, mail, wifi] = importKeePass(keePassXml).vault.entries;
+
+      expect(mail.tags).toEqual(["Internet/Email"]);
+      expect(wifi.tags).toEqual(["Notes"]);
+      expect(wifi.category).toBe(EntryCategory.SECURE_NOTE);
+    });
+
+    it("lit les dates encodées en base64 (KDBX 4)", () => {
+      const [, mail] = importKeePass(keePassXml).vault.entries;
+
+      expect(mail.createdAt).toEqual(new Date("2023-01-01T00:00:00Z"));
+      expect(mail.updatedAt).toEqual(new Date("2023-01-01T00:00:00Z"));
+    });
+
+    it("conserve les URL invalides en champ texte", () => {
+      const [, mail] = importKeePass(keePassXml).vault.entries;
+
+      expect(mail.url).toBeUndefined();
+      expect(mail.customFields?.[0]).toMatchObject({
+        name: "URL",
+        value: "mail.exemple.fr",
+        type: FieldType.TEXT,
+      });
+    });
+
+    it("signale les éléments non importés", () => {
+      const { errors } = importKeePass(keePassXml);
+
+      expect(
+        errors.map(({ message, severity }) => [severity, message])
+      ).toEqual([
+        ["warning", '"Banque & Co": 1 attachment(s) were not imported'],
+        ["warning", '"Mail": Encrypted field "Password" could not be read'],
+        ["warning", "1 entries in the recycle bin were not imported"],
+        ["error", expect.stringContaining("title is required")],
+      ]);
+    });
+
+    it("lit les authentificateurs KeePassXC et KeePass 2.47", () => {
+      const otpEntry = (strings: string) =>
+        `<Entry><String><Key>Title</Key><Value>2FA</Value></String>${strings}</Entry>`;
+      const xml = `<KeePassFile><Root><Group><Name>Base</Name>
+        ${otpEntry(
+          '<String><Key>otp</Key><Value ProtectInMemory="True">otpauth://totp/GitHub:jean?secret=JBSWY3DPEHPK3PXP&amp;period=60</Value></String>'
+        )}
+        ${otpEntry(
+          "<String><Key>TimeOtp-Secret-Base32</Key><Value>jbsw y3dp ehpk 3pxp</Value></String>" +
+            "<String><Key>TimeOtp-Algorithm</Key><Value>HMAC-SHA-256</Value></String>" +
+            "<String><Key>TimeOtp-Length</Key><Value>8</Value></String>"
+        )}
+        ${otpEntry(
+          "<String><Key>TimeOtp-Secret-Hex</Key><Value>48656c6c6f</Value></String>"
+        )}
+      </Group></Root></KeePassFile>`;
+
+      const { vault, errors } = importKeePass(xml);
+      const [uri, settings, hex] = vault.entries;
+
+      expect(uri.totp).toMatchObject({
+        secret: "JBSWY3DPEHPK3PXP",
+        issuer: "GitHub",
+        label: "jean",
+        period: 60,
+      });
+      expect(uri.customFields).toEqual([]);
+      expect(settings.totp).toEqual({
+        type: "totp",
+        secret: "JBSWY3DPEHPK3PXP",
+        algorithm: "SHA256",
+        digits: 8,
+        period: 30,
+      });
+      expect(hex.totp).toBeUndefined();
+      expect(hex.customFields?.[0].name).toBe("TimeOtp-Secret-Hex");
+      expect(errors.map((error) => error.message)).toEqual([
+        '"2FA": TOTP settings format is not supported, kept as custom fields',
+      ]);
+    });
+
+    it("rejette un fichier qui n'est pas un export KeePass", () => {
+      expect(() => importKeePass("<Racine />")).toThrow(
+        "Invalid KeePass export"
+      );
+    });
+  });
+});
@@ -1,7 +1,12 @@
+import { KeyImportError, UnsupportedKdfError } from "../src/crypto/errors";
 import {
+  assertValidKdfParams,
+  calibrateKdf,
   deriveKey,
   generateSalt,
   keyToString,
+  LEGACY_KDF_PARAMS,
+  MIN_KDF_PARAMS,
   stringToKey,
 } from "../src/crypto/keyDerivation";
 
@@ -81,6 +86,138 @@ describe("Key Derivation", () => {
     });
   });
 
+  describe("deriveKey with KDF parameters", () => {
+    const exportKey = async (key: CryptoKey) =>
+      crypto.subtle.exportKey("jwk", key);
+
+    it("should default to the legacy PBKDF2-SHA256 parameters", async () => {
+      const key1 = await deriveKey(testPassword, testSalt);
+      const key2 = await deriveKey(testPassword, testSalt, LEGACY_KDF_PARAMS);
+      expect(await exportKey(key1)).toEqual(await exportKey(key2));
+    });
+
+    it("should derive different keys for different algorithms", async () => {
+      const sha256 = await deriveKey(testPassword, testSalt, {
+        algorithm: "pbkdf2-sha256",
+        iterations: 1000,
+      });
+      const sha512 = await deriveKey(testPassword, testSalt, {
+        algorithm: "pbkdf2-sha512",
+        iterations: 1000,
+      });
+      expect(await exportKey(sha256)).not.toEqual(await exportKey(sha512));
+    });
+
+    it("should derive a deterministic AES-GCM key with Argon2id", async () => {
+      const params = {
+        algorithm: "argon2id" as const,
+        iterations: 1,
+        memory: 64,
+        parallelism: 1,
+      };
+      const key1 = await deriveKey(testPassword, testSalt, params);
+      const key2 = await deriveKey(testPassword, testSalt, params);
+
+      expect(key1.algorithm.name).toBe("AES-GCM");
+      expect(await exportKey(key1)).toEqual(await exportKey(key2));
+
+      const otherMemory = await deriveKey(testPassword, testSalt, {
+        ...params,
+        memory: 128,
+      });
+      expect(await exportKey(otherMemory)).not.toEqual(await exportKey(key1));
+    });
+
+    it("should reject unsupported or out of range parameters", async () => {
+      expect(() =>
+        assertValidKdfParams({ algorithm: "pbkdf2-sha256", iterations: 0 })
+      ).toThrow(UnsupportedKdfError);
+      expect(() =>
+        assertValidKdfParams({ algorithm: "pbkdf2-sha256", iterations: 0 })
+      ).toThrow("Invalid PBKDF2 iterations");
+      expect(() =>
+        assertValidKdfParams({
+          algorithm: "argon2id",
+          iterations: 1,
+          memory: 4,
+          parallelism: 1,
+        })
+      ).toThrow("Invalid Argon2id parameters");
+      expect(() =>
+        assertValidKdfParams({
+          algorithm: "argon2id",
+          iterations: 1,
+          memory: 1048576,
+          parallelism: 1,
+        })
+      ).not.toThrow();
+      expect(() =>
+        assertValidKdfParams({
+          algorithm: "argon2id",
+          iterations: 1,
+          memory: 1048577,
+          parallelism: 1,
+        })
+      ).toThrow(UnsupportedKdfError);
+      await expect(
+        deriveKey(testPassword, testSalt, {
+          algorithm: "scrypt",
+          iterations: 1,
+        } as never)
+      ).rejects.toThrow("Unsupported KDF algorithm");
+    });
+  });
+
+  describe("calibrateKdf", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    // Simulates a probe derivation taking the given number of milliseconds
+    const mockProbeDuration = (ms: number) => {
+      vi.spyOn(performance, "now")
+        .mockReturnValueOnce(0)
+        .mockReturnValueOnce(ms);
+    };
+
+    it("should scale PBKDF2 iterations to the target time", async () => {
+      mockProbeDuration(10); // 10 000 iterations in 10ms
+      const params = await calibrateKdf(1000, "pbkdf2-sha256");
+      expect(params).toEqual({
+        algorithm: "pbkdf2-sha256",
+        iterations: 1000000,
+      });
+    });
+
+    it("should never go below the PBKDF2 floor", async () => {
+      mockProbeDuration(500);
+      const params = await calibrateKdf(1, "pbkdf2-sha512");
+      expect(params).toEqual(MIN_KDF_PARAMS["pbkdf2-sha512"]);
+    });
+
+    it("should scale Argon2id passes and keep the minimum memory", async () => {
+      mockProbeDuration(100);
+      const params = await calibrateKdf(1000, "argon2id");
+      expect(params).toEqual({
+        ...MIN_KDF_PARAMS.argon2id,
+        iterations: 10,
+      });
+    });
+
+    it("should never go below the Argon2id floor", async () => {
+      mockProbeDuration(100);
+      const params = await calibrateKdf(1);
+      expect(params).toEqual(MIN_KDF_PARAMS.argon2id);
+    });
+
+    it("should reject invalid targets", async () => {
+      await expect(calibrateKdf(0)).rejects.toThrow("Invalid calibration");
+      await expect(calibrateKdf(NaN)).rejects.toMatchObject({
+        code: "UNSUPPORTED_KDF",
+      });
+    });
+  });
+
   describe("keyToString", () => {
     it("should serialize a CryptoKey to a string", async () => {
       const keyString = await keyToString(testKey);
@@ -148,6 +285,16 @@ describe("Key Derivation", () => {
       );
     });
 
+    it("should throw a KeyImportError with a stable code", async () => {
+      await expect(stringToKey("invalid-key-string")).rejects.toMatchObject({
+        name: "KeyImportError",
+        code: "KEY_IMPORT_FAILED",
+      });
+      await expect(stringToKey("invalid-key-string")).rejects.toThrow(
+        KeyImportError
+      );
+    });
+
     it("should throw an error for valid base64 but invalid JWK", async () => {
       const invalidJwk = btoa('{"invalid": "jwk"}');
       await expect(stringToKey(invalidJwk)).rejects.toThrow(
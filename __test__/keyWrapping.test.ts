@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { deriveKey, generateSalt } from "../src/crypto/keyDerivation";
+import {
+  generateVaultKey,
+  unwrapVaultKey,
+  wrapVaultKey,
+} from "../src/crypto/keyWrapping";
+
+describe("Key Wrapping", () => {
+  const exportKey = async (key: CryptoKey) =>
+    crypto.subtle.exportKey("jwk", key);
+
+  describe("generateVaultKey", () => {
+    it("should generate a random 256-bit AES-GCM key", async () => {
+      const key1 = await generateVaultKey();
+      const key2 = await generateVaultKey();
+
+      expect(key1.algorithm).toEqual({ name: "AES-GCM", length: 256 });
+      expect(await exportKey(key1)).not.toEqual(await exportKey(key2));
+    });
+  });
+
+  describe("wrapVaultKey / unwrapVaultKey", () => {
+    it("should restore the wrapped vault key with the same KEK", async () => {
+      const vaultKey = await generateVaultKey();
+      const kek = await deriveKey("Password123!", generateSalt());
+
+      const wrapped = await wrapVaultKey(vaultKey, kek);
+      const unwrapped = await unwrapVaultKey(wrapped, kek);
+
+      expect(await exportKey(unwrapped)).toEqual(await exportKey(vaultKey));
+    });
+
+    it("should use a fresh IV for every wrap", async () => {
+      const vaultKey = await generateVaultKey();
+      const kek = await generateVaultKey();
+
+      const first = await wrapVaultKey(vaultKey, kek);
+      const second = await wrapVaultKey(vaultKey, kek);
+
+      expect(first.iv).not.toBe(second.iv);
+      expect(first.data).not.toBe(second.data);
+    });
+
+    it("should fail to unwrap with another KEK", async () => {
+      const vaultKey = await generateVaultKey();
+      const wrapped = await wrapVaultKey(vaultKey, await generateVaultKey());
+
+      await expect(
+        unwrapVaultKey(wrapped, await generateVaultKey())
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { FieldType, Vault, VaultEntry } from "../src/types";
+import { createCustomField } from "../src/vault/customFields";
+import { mergeVaults } from "../src/vault/merge";
+import { moveToTrash } from "../src/vault/trash";
+import {
+  addEntry,
+  createVault,
+  deleteEntry,
+  getEntry,
+  updateEntry,
+} from "../src/vault/vault";
+
+describe("Vault Merge Module", () => {
+  let base: Vault;
+  let bankId: string;
+  let forumId: string;
+
+  // Modifie une entrée à une date donnée pour maîtriser l'ordre des côtés
+  const edit = (
+    vault: Vault,
+    entryId: string,
+    updates: Partial<VaultEntry>,
+    date: string
+  ): Vault => {
+    const updatedAt = new Date(date);
+    const updated = updateEntry(vault, entryId, updates).vault;
+    return {
+      ...updated,
+      updatedAt,
+      entries: updated.entries.map((entry) =>
+        entry.id === entryId ? { ...entry, updatedAt } : entry
+      ),
+    };
+  };
+
+  beforeEach(() => {
+    const bank = addEntry(createVault({ name: "Perso" }), {
+      title: "Banque",
+      username: "jean",
+      password: "Premier123!",
+      customFields: [createCustomField("PIN", "1234", FieldType.PASSWORD)],
+    });
+    const forum = addEntry(bank.vault, { title: "Forum", password: "abc" });
+    base = forum.vault;
+    bankId = bank.entry.id;
+    forumId = forum.entry.id;
+  });
+
+  it("fusionne des modifications de champs différents sans conflit", () => {
+    const local = edit(
+      base,
+      bankId,
+      { url: "https://banque.fr" },
+      "2030-01-01"
+    );
+    const remote = edit(base, bankId, { notes: "Agence" }, "2030-01-02");
+
+    const result = mergeVaults(base, local, remote);
+
+    expect(result.conflicts).toEqual([]);
+    expect(getEntry(result.vault, bankId)).toMatchObject({
+      url: "https://banque.fr",
+      notes: "Agence",
+      username: "jean",
+    });
+  });
+
+  it("retient la modification la plus récente d'un même champ", () => {
+    const local = edit(base, bankId, { title: "Ma banque" }, "2030-01-02");
+    const remote = edit(
+      base,
+      bankId,
+      { title: "Banque en ligne" },
+      "2030-01-01"
+    );
+
+    const result = mergeVaults(base, local, remote);
+
+    expect(getEntry(result.vault, bankId)?.title).toBe("Ma banque");
+    expect(result.conflicts).toEqual([
+      {
+        type: "edit",
+        entryId: bankId,
+        field: "title",
+        base: "Banque",
+        local: "Ma banque",
+        remote: "Banque en ligne",
+        resolution: "local",
+      },
+    ]);
+  });
+
+  it("produit le même vault quel que soit le côté local", () => {
+    const date = "2030-01-01";
+    let local = edit(base, bankId, { title: "Ma banque" }, date);
+    local = addEntry(local, { title: "Mail" }).vault;
+    let remote = edit(base, bankId, { title: "Banque en ligne" }, date);
+    remote = edit(remote, forumId, { tags: ["loisirs"] }, date);
+    remote = addEntry(remote, { title: "Cloud" }).vault;
+
+    const merged = mergeVaults(base, local, remote);
+    const swapped = mergeVaults(base, remote, local);
+
+    expect(swapped.vault).toEqual(merged.vault);
+    expect(merged.vault.entries.map((entry) => entry.title)).toEqual(
+      expect.arrayContaining(["Ma banque", "Forum", "Mail", "Cloud"])
+    );
+    expect(swapped.conflicts[0].resolution).not.toBe(
+      merged.conflicts[0].resolution
+    );
+  });
+
+  it("fusionne les champs personnalisés par identifiant", () => {
+    const [pin] = getEntry(base, bankId)!.customFields!;
+    const code = createCustomField("Code", "42", FieldType.TEXT);
+    const local = edit(
+      base,
+      bankId,
+      { customFields: [{ ...pin, value: "9999" }] },
+      "2030-01-01"
+    );
+    const remote = edit(
+      base,
+      bankId,
+      { customFields: [pin, code] },
+      "2030-01-02"
+    );
+
+    const result = mergeVaults(base, local, remote);
+
+    expect(getEntry(result.vault, bankId)?.customFields).toEqual([
+      { ...pin, value: "9999" },
+      code,
+    ]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("conserve dans l'historique le mot de passe écarté", () => {
+    const local = edit(base, bankId, { password: "Local123!" }, "2030-01-01");
+    const remote = edit(
+      base,
+      bankId,
+      { password: "Distant123!" },
+      "2030-01-02"
+    );
+
+    const entry = getEntry(mergeVaults(base, local, remote).vault, bankId)!;
+
+    expect(entry.password).toBe("Distant123!");
+    expect(entry.passwordHistory?.map((item) => item.value)).toEqual([
+      "Local123!",
+      "Premier123!",
+    ]);
+  });
+
+  describe("suppressions", () => {
+    it("supprime une entrée effacée d'un côté et inchangée de l'autre", () => {
+      const local = { ...base, entries: [getEntry(base, forumId)!] };
+
+      const result = mergeVaults(base, local, base);
+
+      expect(result.vault.entries.map((entry) => entry.id)).toEqual([forumId]);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("garde une entrée effacée d'un côté et modifiée de l'autre", () => {
+      const local = { ...base, entries: [getEntry(base, forumId)!] };
+      const remote = edit(base, bankId, { notes: "Agence" }, "2030-01-01");
+
+      const result = mergeVaults(base, local, remote);
+
+      expect(getEntry(result.vault, bankId)?.notes).toBe("Agence");
+      expect(result.conflicts).toEqual([
+        {
+          type: "deleteEdit",
+          entryId: bankId,
+          base: getEntry(base, bankId),
+          remote: getEntry(remote, bankId),
+          resolution: "remote",
+        },
+      ]);
+    });
+
+    it("sort de la corbeille une entrée modifiée de l'autre côté", () => {
+      const local = deleteEntry(base, bankId);
+      const remote = edit(base, bankId, { notes: "Agence" }, "2030-01-01");
+
+      const result = mergeVaults(base, local, remote);
+      const entry = getEntry(result.vault, bankId)!;
+
+      expect(entry.deletedAt).toBeUndefined();
+      expect(entry.notes).toBe("Agence");
+      expect(result.conflicts[0]).toMatchObject({
+        type: "deleteEdit",
+        resolution: "remote",
+      });
+    });
+
+    it("propage une mise à la corbeille sans conflit", () => {
+      const local = moveToTrash(base, [forumId]);
+      const remote = edit(base, bankId, { notes: "Agence" }, "2030-01-01");
+
+      const result = mergeVaults(base, local, remote);
+
+      expect(getEntry(result.vault, forumId)?.deletedAt).toEqual(
+        getEntry(local, forumId)?.deletedAt
+      );
+      expect(result.conflicts).toEqual([]);
+    });
+  });
+
+  it("fusionne les propriétés du vault", () => {
+    const local = {
+      ...base,
+      name: "Famille",
+      updatedAt: new Date("2030-01-01"),
+    };
+    const remote = {
+      ...base,
+      description: "Partagé",
+      updatedAt: new Date("2030-01-02"),
+    };
+
+    const { vault, conflicts } = mergeVaults(base, local, remote);
+
+    expect(vault).toMatchObject({
+      name: "Famille",
+      description: "Partagé",
+      updatedAt: remote.updatedAt,
+    });
+    expect(conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { UnsupportedVaultVersionError } from "../src/crypto/errors";
+import {
+  openVault,
+  resealVault,
+  sealVault,
+  unlockVault,
+} from "../src/crypto/seal";
+import {
+  SUPPORTED_VERSIONS,
+  Vault,
+  VAULT_VERSION,
+  VaultMigration,
+} from "../src/types";
+import { isSupportedVersion, upgradeVault } from "../src/vault/migrations";
+import { addEntry, createVault } from "../src/vault/vault";
+
+describe("Migrations Module", () => {
+  // Migrations fictives : 0.8 renomme "site" en "url", 0.9 ajoute une description
+  const migrations: VaultMigration[] = [
+    {
+      from: "0.9.0",
+      to: "1.0.0",
+      migrate: (vault) => ({ ...vault, description: "migré" }),
+    },
+    {
+      from: "0.8.0",
+      to: "0.9.0",
+      migrate: (vault) => ({
+        ...vault,
+        entries: vault.entries.map((entry) => {
+          const { site, ...rest } = entry as typeof entry & { site?: string };
+          return { ...rest, url: site };
+        }),
+      }),
+    },
+  ];
+  const supportedVersions = ["0.8.0", "0.9.0", "1.0.0"];
+
+  const createOldVault = (version: string): Vault => {
+    const { vault } = addEntry(createVault({ name: "Ancien" }), {
+      title: "Banque",
+    });
+    return {
+      ...vault,
+      version,
+      entries: vault.entries.map((entry) => ({
+        ...entry,
+        site: "https://banque.fr",
+      })),
+    };
+  };
+
+  it("ne modifie pas un vault déjà à jour", () => {
+    const vault = createVault({ name: "Vault" });
+    expect(upgradeVault(vault)).toBe(vault);
+  });
+
+  it("enchaîne les migrations jusqu'à la version cible", () => {
+    const old = createOldVault("0.8.0");
+    const upgraded = upgradeVault(old, {
+      migrations,
+      supportedVersions,
+      targetVersion: "1.0.0",
+    });
+
+    expect(upgraded.version).toBe("1.0.0");
+    expect(upgraded.description).toBe("migré");
+    expect(upgraded.entries[0].url).toBe("https://banque.fr");
+    expect(upgraded.entries[0]).not.toHaveProperty("site");
+    // Opération immuable
+    expect(old.version).toBe("0.8.0");
+  });
+
+  it("démarre la chaîne à la version du vault", () => {
+    const upgraded = upgradeVault(createOldVault("0.9.0"), {
+      migrations,
+      supportedVersions,
+      targetVersion: "1.0.0",
+    });
+
+    expect(upgraded.version).toBe("1.0.0");
+    expect(upgraded.entries[0].url).toBeUndefined();
+  });
+
+  it("rejette les versions non supportées", () => {
+    expect(isSupportedVersion(VAULT_VERSION)).toBe(true);
+    expect(isSupportedVersion("0.8.0")).toBe(false);
+
+    const future = { ...createVault({ name: "Futur" }), version: "2.0.0" };
+    expect(() => upgradeVault(future)).toThrow(UnsupportedVaultVersionError);
+    expect(() =>
+      upgradeVault(createOldVault("0.8.0"), {
+        migrations,
+        targetVersion: "1.0.0",
+      })
+    ).toThrow("Unsupported vault version: 0.8.0");
+  });
+
+  it("rejette une chaîne de migrations incomplète ou cyclique", () => {
+    const old = createOldVault("0.8.0");
+
+    expect(() =>
+      upgradeVault(old, {
+        migrations: [migrations[1]],
+        supportedVersions,
+        targetVersion: "1.0.0",
+      })
+    ).toThrow(UnsupportedVaultVersionError);
+    expect(() =>
+      upgradeVault(old, {
+        migrations: [
+          { from: "0.8.0", to: "0.9.0", migrate: (vault) => vault },
+          { from: "0.9.0", to: "0.8.0", migrate: (vault) => vault },
+        ],
+        supportedVersions,
+        targetVersion: "1.0.0",
+      })
+    ).toThrow(UnsupportedVaultVersionError);
+  });
+
+  it("sait migrer chaque version supportée vers la version courante", () => {
+    for (const version of SUPPORTED_VERSIONS) {
+      const vault = { ...createVault({ name: "Vault" }), version };
+      expect(upgradeVault(vault).version).toBe(VAULT_VERSION);
+    }
+  });
+
+  it("refuse d'ouvrir un vault chiffré dans une version inconnue", async () => {
+    const kdf = {
+      algorithm: "argon2id" as const,
+      iterations: 1,
+      memory: 64,
+      parallelism: 1,
+    };
+    const vault = createVault({ name: "Vault" });
+    const encrypted = await sealVault(vault, "MotDePasse123!", { kdf });
+    const { vaultKey } = await unlockVault(encrypted, "MotDePasse123!");
+    const future = await resealVault(
+      encrypted,
+      { ...vault, version: "2.0.0" },
+      vaultKey
+    );
+
+    expect(future.version).toBe("2.0.0");
+    await expect(openVault(future, "MotDePasse123!")).rejects.toThrow(
+      UnsupportedVaultVersionError
+    );
+  });
+});
@@ -0,0 +1,306 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { FieldType, Vault, VaultEntry, VaultOperation } from "../src/types";
+import { bulkAddEntries, bulkDeleteEntries } from "../src/vault/bulk";
+import {
+  addCustomField,
+  createCustomField,
+  removeCustomField,
+  updateCustomField,
+} from "../src/vault/customFields";
+import {
+  applyOperations,
+  diffVaults,
+  invertOperation,
+  invertOperations,
+} from "../src/vault/operations";
+import {
+  deserializeOperations,
+  serializeOperations,
+} from "../src/vault/serialization";
+import { emptyTrash } from "../src/vault/trash";
+import {
+  addEntry,
+  createVault,
+  deleteEntry,
+  getEntry,
+  updateEntry,
+} from "../src/vault/vault";
+
+// The history is rebuilt on replay, with new revision ids and dates
+const withoutHistory = (entries: VaultEntry[]) =>
+  entries.map(({ passwordHistory, revisions, ...entry }) => entry);
+
+describe("Vault Operations Module", () => {
+  let vault: Vault;
+  let operations: VaultOperation[];
+  const onOperation = (operation: VaultOperation) => {
+    operations.push(operation);
+  };
+
+  beforeEach(() => {
+    vault = createVault({ name: "Perso" });
+    operations = [];
+  });
+
+  it("émet une opération par ajout et la rejoue sur une copie", () => {
+    const copy = vault;
+    const result = addEntry(vault, { title: "Banque" }, { onOperation });
+
+    expect(operations).toEqual([{ type: "entryAdded", entry: result.entry }]);
+    expect(applyOperations(copy, operations).entries).toEqual(
+      result.vault.entries
+    );
+  });
+
+  it("émet un correctif des champs modifiés", () => {
+    const added = addEntry(vault, { title: "Banque", url: "https://a.fr" });
+
+    const result = updateEntry(
+      added.vault,
+      added.entry.id,
+      { title: "Ma banque", url: undefined },
+      { onOperation }
+    );
+
+    const [operation] = operations;
+    expect(operation.type).toBe("entryUpdated");
+    expect(operation.type === "entryUpdated" && operation.changes).toEqual(
+      expect.arrayContaining([
+        { field: "title", previous: "Banque", current: "Ma banque" },
+        { field: "url", previous: "https://a.fr" },
+      ])
+    );
+    expect(applyOperations(added.vault, operations).entries).toEqual(
+      result.vault.entries.map((entry) => ({
+        ...entry,
+        revisions: [
+          {
+            ...entry.revisions![0],
+            id: expect.any(String),
+            changedAt: expect.any(Date),
+          },
+        ],
+      }))
+    );
+  });
+
+  it("laisse l'historique hors des correctifs et le reconstruit au rejeu", () => {
+    const added = addEntry(vault, { title: "Banque", password: "Ancien1!" });
+    const first = updateEntry(added.vault, added.entry.id, {
+      title: "Ma banque",
+      password: "Second2!",
+    });
+
+    const result = updateEntry(
+      first.vault,
+      added.entry.id,
+      { password: "Nouveau3!" },
+      { onOperation }
+    );
+    const [replayed] = applyOperations(first.vault, operations).entries;
+
+    const changes =
+      operations[0].type === "entryUpdated" ? operations[0].changes : [];
+    expect(changes[0]).toEqual({
+      field: "password",
+      previous: "Second2!",
+      current: "Nouveau3!",
+    });
+    const fields = changes.map((change) => change.field);
+    expect(fields).not.toContain("passwordHistory");
+    expect(fields).not.toContain("revisions");
+    expect(replayed.passwordHistory?.map((item) => item.value)).toEqual([
+      "Second2!",
+      "Ancien1!",
+    ]);
+    expect(replayed.revisions).toEqual(result.entry.revisions);
+  });
+
+  it("annule une mise à la corbeille", () => {
+    const added = addEntry(vault, { title: "Banque" });
+    const deleted = deleteEntry(added.vault, added.entry.id, { onOperation });
+
+    expect(operations).toEqual([
+      {
+        type: "entryDeleted",
+        entry: added.entry,
+        deletedAt: getEntry(deleted, added.entry.id)?.deletedAt,
+      },
+    ]);
+    expect(
+      applyOperations(deleted, [invertOperation(operations[0])]).entries
+    ).toEqual(added.vault.entries);
+  });
+
+  it("rejoue et annule les changements de champs personnalisés", () => {
+    const added = addEntry(vault, { title: "Banque" });
+    const pin = createCustomField("PIN", "1234", FieldType.PASSWORD);
+
+    const withPin = addCustomField(added.entry, pin, { onOperation });
+    const updated = updateCustomField(
+      withPin,
+      pin.id,
+      { value: "9999" },
+      { onOperation }
+    );
+    const removed = removeCustomField(updated, pin.id, { onOperation });
+
+    expect(operations[1]).toMatchObject({
+      type: "customFieldChanged",
+      entryId: added.entry.id,
+      fieldId: pin.id,
+      previous: pin,
+      current: { ...pin, value: "9999" },
+    });
+    expect(JSON.stringify(operations)).not.toMatch(/revisions|passwordHistory/);
+    const [replayed] = applyOperations(
+      added.vault,
+      operations.slice(0, 2)
+    ).entries;
+    expect(withoutHistory([replayed])).toEqual(withoutHistory([updated]));
+    expect(replayed.revisions?.map((revision) => revision.entry)).toEqual(
+      updated.revisions?.map((revision) => revision.entry)
+    );
+    expect(
+      applyOperations(
+        { ...added.vault, entries: [removed] },
+        invertOperations(operations)
+      ).entries
+    ).toEqual([added.entry]);
+  });
+
+  it("annule un changement de mot de passe sans garder l'ancien historique", () => {
+    const added = addEntry(vault, { title: "Banque", password: "old" });
+    const after = updateEntry(
+      added.vault,
+      added.entry.id,
+      { password: "new", notes: "Note" },
+      { onOperation }
+    );
+    const { updatedAt, ...original } = added.entry;
+
+    const [undone] = applyOperations(
+      after.vault,
+      invertOperations(operations)
+    ).entries;
+
+    expect(after.entry.passwordHistory).toHaveLength(1);
+    expect(after.entry.revisions).toHaveLength(1);
+    expect(undone).toEqual({ ...original, updatedAt: expect.any(Date) });
+    expect(JSON.stringify(undone)).not.toContain("new");
+  });
+
+  it("n'inclut pas l'historique dans les entrées ajoutées ou supprimées", () => {
+    const added = addEntry(vault, { title: "Banque", password: "old" });
+    const updated = updateEntry(added.vault, added.entry.id, {
+      password: "new",
+      title: "Banque 2",
+    });
+
+    deleteEntry(updated.vault, added.entry.id, { onOperation });
+    emptyTrash(deleteEntry(updated.vault, added.entry.id), undefined, {
+      onOperation,
+    });
+    bulkAddEntries(
+      vault,
+      [{ title: "Forum", passwordHistory: updated.entry.passwordHistory }],
+      { onOperation }
+    );
+
+    expect(operations.map((operation) => operation.type)).toEqual([
+      "entryDeleted",
+      "entryDeleted",
+      "entryAdded",
+    ]);
+    expect(JSON.stringify(operations)).not.toMatch(
+      /revisions|passwordHistory|"old"/
+    );
+  });
+
+  it("annule une suite d'opérations dans l'ordre inverse", () => {
+    const first = addEntry(vault, { title: "Banque" }, { onOperation });
+    const second = updateEntry(
+      first.vault,
+      first.entry.id,
+      { password: "Secret123!" },
+      { onOperation }
+    );
+    const deleted = deleteEntry(second.vault, first.entry.id, { onOperation });
+    const emptied = emptyTrash(deleted, undefined, { onOperation });
+
+    expect(operations.map((operation) => operation.type)).toEqual([
+      "entryAdded",
+      "entryUpdated",
+      "entryDeleted",
+      "entryDeleted",
+    ]);
+    expect(
+      applyOperations(emptied, invertOperations(operations.slice(1))).entries
+    ).toEqual(first.vault.entries);
+    expect(
+      applyOperations(emptied, invertOperations(operations))
+    ).toMatchObject({ entries: [] });
+  });
+
+  it("émet une opération par entrée pour les opérations groupées", () => {
+    const added = bulkAddEntries(
+      vault,
+      [{ title: "Banque" }, { title: "Forum" }],
+      { onOperation }
+    );
+    bulkDeleteEntries(
+      added.vault,
+      added.entries.map((entry) => entry.id),
+      { onOperation }
+    );
+
+    expect(operations.map((operation) => operation.type)).toEqual([
+      "entryAdded",
+      "entryAdded",
+      "entryDeleted",
+      "entryDeleted",
+    ]);
+  });
+
+  it("décrit les différences entre deux versions du vault", () => {
+    const added = addEntry(vault, { title: "Banque" });
+    const updated = updateEntry(added.vault, added.entry.id, { notes: "Note" });
+
+    expect(diffVaults(vault, updated.vault)).toEqual([
+      { type: "entryAdded", entry: withoutHistory([updated.entry])[0] },
+    ]);
+    expect(diffVaults(added.vault, updated.vault)[0]).toMatchObject({
+      type: "entryUpdated",
+      entryId: added.entry.id,
+    });
+    expect(diffVaults(updated.vault, updated.vault)).toEqual([]);
+  });
+
+  it("ignore les opérations déjà appliquées ou sur des entrées inconnues", () => {
+    const added = addEntry(vault, { title: "Banque" }, { onOperation });
+    updateEntry(vault, "inconnue", { title: "X" }, { onOperation });
+
+    expect(applyOperations(added.vault, operations)).toBe(added.vault);
+    expect(
+      applyOperations(vault, [
+        { type: "entryUpdated", entryId: "inconnue", changes: [] },
+      ])
+    ).toBe(vault);
+  });
+
+  it("restaure les dates à la désérialisation", () => {
+    const added = addEntry(vault, { title: "Banque" });
+    updateEntry(
+      added.vault,
+      added.entry.id,
+      { notes: "Note" },
+      { onOperation }
+    );
+    deleteEntry(added.vault, added.entry.id, { onOperation });
+
+    const restored = deserializeOperations(serializeOperations(operations));
+
+    expect(restored).toEqual(operations);
+    expect(() => deserializeOperations("{}")).toThrow();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { generateFromSettings } from "../src/generator/generator";
+import {
+  calculatePassphraseEntropy,
+  DEFAULT_PASSPHRASE_SETTINGS,
+  generatePassphrase,
+} from "../src/generator/passphraseGenerator";
+import {
+  PasswordGeneratorError,
+  SYMBOL_CHARACTERS,
+} from "../src/generator/passwordGenerator";
+import { EFF_LARGE_WORDLIST } from "../src/generator/wordlist";
+import {
+  DEFAULT_VAULT_SETTINGS,
+  PasswordGeneratorSettings,
+} from "../src/types";
+
+describe("Passphrase Generator", () => {
+  describe("EFF_LARGE_WORDLIST", () => {
+    it("should contain 7776 unique words", () => {
+      expect(EFF_LARGE_WORDLIST).toHaveLength(7776);
+      expect(new Set(EFF_LARGE_WORDLIST).size).toBe(7776);
+    });
+  });
+
+  describe("generatePassphrase", () => {
+    it("should generate the requested number of words from the word list", () => {
+      const { value, mode } = generatePassphrase({
+        ...DEFAULT_PASSPHRASE_SETTINGS,
+        wordCount: 5,
+        separator: " ",
+      });
+
+      const words = value.split(" ");
+      expect(mode).toBe("passphrase");
+      expect(words).toHaveLength(5);
+      words.forEach((word) => expect(EFF_LARGE_WORDLIST).toContain(word));
+    });
+
+    it("should use the configured separator", () => {
+      const { value } = generatePassphrase({
+        ...DEFAULT_PASSPHRASE_SETTINGS,
+        wordCount: 4,
+        separator: ".",
+      });
+      expect(value.split(".").length).toBeGreaterThanOrEqual(4);
+    });
+
+    it("should capitalize every word when requested", () => {
+      const { value } = generatePassphrase({
+        ...DEFAULT_PASSPHRASE_SETTINGS,
+        separator: " ",
+        capitalize: true,
+      });
+      value.split(" ").forEach((word) => expect(word).toMatch(/^[A-Z]/));
+    });
+
+    it("should append a digit and a symbol when requested", () => {
+      const { value } = generatePassphrase({
+        ...DEFAULT_PASSPHRASE_SETTINGS,
+        separator: " ",
+        includeNumber: true,
+        includeSymbol: true,
+      });
+      expect(value).toMatch(/[0-9]/);
+      // The symbol is appended last, so it always ends one of the words
+      expect(
+        value
+          .split(" ")
+          .some((word) => SYMBOL_CHARACTERS.includes(word.slice(-1)))
+      ).toBe(true);
+    });
+
+    it("should report the entropy in bits", () => {
+      const { entropy } = generatePassphrase(DEFAULT_PASSPHRASE_SETTINGS);
+      expect(entropy).toBeCloseTo(6 * Math.log2(7776), 5);
+    });
+
+    it("should account for the extra digit and symbol in the entropy", () => {
+      const base = calculatePassphraseEntropy(DEFAULT_PASSPHRASE_SETTINGS);
+      const extended = calculatePassphraseEntropy({
+        ...DEFAULT_PASSPHRASE_SETTINGS,
+        includeNumber: true,
+        includeSymbol: true,
+      });
+      expect(extended).toBeGreaterThan(base);
+    });
+
+    it("should reject invalid word counts", () => {
+      expect(() =>
+        generatePassphrase({ ...DEFAULT_PASSPHRASE_SETTINGS, wordCount: 0 })
+      ).toThrow(PasswordGeneratorError);
+      expect(() =>
+        generatePassphrase({ ...DEFAULT_PASSPHRASE_SETTINGS, wordCount: 2.5 })
+      ).toThrow(PasswordGeneratorError);
+    });
+  });
+
+  describe("generateFromSettings", () => {
+    const settings =
+      DEFAULT_VAULT_SETTINGS.passwordGenerator as PasswordGeneratorSettings;
+
+    it("should generate a character password by default", () => {
+      const result = generateFromSettings({ ...settings, mode: undefined });
+      expect(result.mode).toBe("characters");
+      expect(result.value).toHaveLength(settings.length);
+      expect(result.entropy).toBeGreaterThan(0);
+    });
+
+    it("should generate a passphrase in passphrase mode", () => {
+      const result = generateFromSettings({
+        ...settings,
+        mode: "passphrase",
+        passphrase: { ...DEFAULT_PASSPHRASE_SETTINGS, wordCount: 3 },
+      });
+      expect(result.mode).toBe("passphrase");
+      expect(result.value.split("-").length).toBeGreaterThanOrEqual(3);
+    });
+
+    it("should fall back to default passphrase settings", () => {
+      const result = generateFromSettings({
+        ...settings,
+        mode: "passphrase",
+        passphrase: undefined,
+      });
+      expect(result.entropy).toBeCloseTo(
+        calculatePassphraseEntropy(DEFAULT_PASSPHRASE_SETTINGS),
+        5
+      );
+    });
+  });
+});
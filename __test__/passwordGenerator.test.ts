@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  generatePassword,
+  NUMBER_CHARACTERS,
+  PasswordGeneratorError,
+  SIMILAR_CHARACTERS,
+} from "../src/generator/passwordGenerator";
+import { PasswordGeneratorSettings } from "../src/types";
+import { randomInt } from "../src/utils/random";
+
+describe("Password Generator", () => {
+  const settings: PasswordGeneratorSettings = {
+    length: 16,
+    includeUppercase: true,
+    includeLowercase: true,
+    includeNumbers: true,
+    includeSymbols: true,
+    excludeSimilar: false,
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("generatePassword", () => {
+    it("should generate a password of the requested length", () => {
+      expect(generatePassword(settings)).toHaveLength(16);
+      expect(generatePassword({ ...settings, length: 64 })).toHaveLength(64);
+    });
+
+    it("should include at least one character of every enabled class", () => {
+      for (let i = 0; i < 50; i++) {
+        const password = generatePassword({ ...settings, length: 4 });
+        expect(password).toMatch(/[A-Z]/);
+        expect(password).toMatch(/[a-z]/);
+        expect(password).toMatch(/[0-9]/);
+        expect(password).toMatch(/[^A-Za-z0-9]/);
+      }
+    });
+
+    it("should only use enabled character classes", () => {
+      const password = generatePassword({
+        ...settings,
+        includeUppercase: false,
+        includeSymbols: false,
+        length: 100,
+      });
+      expect(password).toMatch(/^[a-z0-9]+$/);
+    });
+
+    it("should exclude similar characters when requested", () => {
+      const password = generatePassword({
+        ...settings,
+        excludeSimilar: true,
+        length: 500,
+      });
+
+      for (const char of SIMILAR_CHARACTERS) {
+        expect(password).not.toContain(char);
+      }
+    });
+
+    it("should use custom symbols instead of the default set", () => {
+      const password = generatePassword({
+        ...settings,
+        includeUppercase: false,
+        includeLowercase: false,
+        includeNumbers: false,
+        customSymbols: "#$",
+        length: 50,
+      });
+      expect(password).toMatch(/^[#$]+$/);
+    });
+
+    it("should generate different passwords each time", () => {
+      expect(generatePassword(settings)).not.toBe(generatePassword(settings));
+    });
+
+    it("should reject settings without any character class", () => {
+      expect(() =>
+        generatePassword({
+          ...settings,
+          includeUppercase: false,
+          includeLowercase: false,
+          includeNumbers: false,
+          includeSymbols: false,
+        })
+      ).toThrow(PasswordGeneratorError);
+    });
+
+    it("should reject a length shorter than the number of classes", () => {
+      try {
+        generatePassword({ ...settings, length: 3 });
+        expect.fail("Expected generatePassword to throw");
+      } catch (error) {
+        expect(error).toBeInstanceOf(PasswordGeneratorError);
+        expect((error as PasswordGeneratorError).code).toBe("INVALID_LENGTH");
+      }
+    });
+
+    it("should reject non-integer lengths", () => {
+      expect(() => generatePassword({ ...settings, length: 12.5 })).toThrow(
+        PasswordGeneratorError
+      );
+    });
+
+    it("should reject a character class emptied by the exclusions", () => {
+      try {
+        generatePassword({
+          ...settings,
+          customSymbols: "|",
+          excludeSimilar: true,
+        });
+        expect.fail("Expected generatePassword to throw");
+      } catch (error) {
+        expect((error as PasswordGeneratorError).code).toBe(
+          "EMPTY_CHARACTER_SET"
+        );
+      }
+    });
+
+    it("should only draw numbers when numbers are the sole class", () => {
+      const password = generatePassword({
+        ...settings,
+        includeUppercase: false,
+        includeLowercase: false,
+        includeSymbols: false,
+        length: 30,
+      });
+      for (const char of password) {
+        expect(NUMBER_CHARACTERS).toContain(char);
+      }
+    });
+  });
+
+  describe("randomInt", () => {
+    it("should return values within bounds", () => {
+      for (let i = 0; i < 100; i++) {
+        const value = randomInt(7);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(7);
+      }
+    });
+
+    it("should reject values that would introduce modulo bias", () => {
+      const spy = vi
+        .spyOn(crypto, "getRandomValues")
+        .mockImplementationOnce(
+          <T extends ArrayBufferView | null>(array: T) => {
+            (array as unknown as Uint32Array)[0] = 0xffffffff;
+            return array;
+          }
+        )
+        .mockImplementationOnce(
+          <T extends ArrayBufferView | null>(array: T) => {
+            (array as unknown as Uint32Array)[0] = 10;
+            return array;
+          }
+        );
+
+      expect(randomInt(3)).toBe(1);
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject invalid bounds", () => {
+      expect(() => randomInt(0)).toThrow(RangeError);
+      expect(() => randomInt(1.5)).toThrow(RangeError);
+    });
+  });
+});
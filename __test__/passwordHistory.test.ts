@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { exportVault } from "../src/importExport/export";
+import { Vault } from "../src/types";
+import { createEntry, updateEntryData } from "../src/vault/entry";
+import {
+  clearPasswordHistory,
+  getPasswordHistory,
+  restorePassword,
+  setPasswordHistoryLimit,
+} from "../src/vault/passwordHistory";
+import { deserializeVault, serializeVault } from "../src/vault/serialization";
+import { addEntry, createVault, updateEntry } from "../src/vault/vault";
+
+describe("Password History Module", () => {
+  let vault: Vault;
+  let entryId: string;
+
+  const changePassword = (password: string) => {
+    vault = updateEntry(vault, entryId, { password }).vault;
+  };
+
+  beforeEach(() => {
+    const added = addEntry(createVault({ name: "Perso" }), {
+      title: "Banque",
+      username: "jean",
+      password: "Premier123!",
+    });
+    vault = added.vault;
+    entryId = added.entry.id;
+  });
+
+  describe("updateEntry", () => {
+    it("conserve l'ancien mot de passe avec sa date de changement", () => {
+      const result = updateEntry(vault, entryId, { password: "Second123!" });
+
+      expect(result.entry.passwordHistory).toEqual([
+        { value: "Premier123!", changedAt: result.entry.updatedAt },
+      ]);
+    });
+
+    it("n'ajoute rien si le mot de passe ne change pas", () => {
+      changePassword("Premier123!");
+      vault = updateEntry(vault, entryId, { notes: "Agence" }).vault;
+
+      expect(getPasswordHistory(vault, entryId)).toEqual([]);
+    });
+
+    it("limite l'historique selon le réglage du vault", () => {
+      vault = setPasswordHistoryLimit(vault, 2);
+      ["Second123!", "Troisieme123!", "Quatrieme123!"].forEach(changePassword);
+
+      expect(
+        getPasswordHistory(vault, entryId).map((item) => item.value)
+      ).toEqual(["Troisieme123!", "Second123!"]);
+    });
+  });
+
+  describe("updateEntryData", () => {
+    it("utilise la limite par défaut", () => {
+      let entry = createEntry({ title: "Forum", password: "0" });
+      for (let i = 1; i <= 12; i++) {
+        entry = updateEntryData(entry, { password: String(i) });
+      }
+
+      expect(entry.passwordHistory).toHaveLength(10);
+      expect(entry.passwordHistory?.[0].value).toBe("11");
+    });
+  });
+
+  describe("restorePassword", () => {
+    it("restaure un ancien mot de passe et historise l'actuel", () => {
+      changePassword("Second123!");
+      changePassword("Troisieme123!");
+
+      const result = restorePassword(vault, entryId, 1);
+
+      expect(result.entry.password).toBe("Premier123!");
+      expect(result.entry.passwordHistory?.map((item) => item.value)).toEqual([
+        "Troisieme123!",
+        "Second123!",
+      ]);
+    });
+
+    it("signale une position inconnue", () => {
+      const result = restorePassword(vault, entryId, 0);
+
+      expect(result.vault).toBe(vault);
+      expect(result.validation.errors[0].code).toBe(
+        "PASSWORD_HISTORY_NOT_FOUND"
+      );
+    });
+  });
+
+  describe("clearPasswordHistory", () => {
+    it("efface l'historique sans changer le mot de passe", () => {
+      changePassword("Second123!");
+
+      const { entry } = clearPasswordHistory(vault, entryId);
+
+      expect(entry.password).toBe("Second123!");
+      expect(entry.passwordHistory).toEqual([]);
+    });
+  });
+
+  describe("setPasswordHistoryLimit", () => {
+    it("tronque les historiques existants", () => {
+      changePassword("Second123!");
+      changePassword("Troisieme123!");
+
+      vault = setPasswordHistoryLimit(vault, 1);
+
+      expect(vault.settings?.security?.passwordHistoryLimit).toBe(1);
+      expect(vault.settings?.security?.lockTimeout).toBe(15);
+      expect(getPasswordHistory(vault, entryId)).toHaveLength(1);
+    });
+  });
+
+  it("restaure les dates de l'historique à la désérialisation", () => {
+    changePassword("Second123!");
+
+    const [entry] = deserializeVault(serializeVault(vault)).entries;
+
+    expect(entry.passwordHistory?.[0].changedAt).toBeInstanceOf(Date);
+  });
+
+  it("n'exporte pas l'historique sans includePasswords", async () => {
+    changePassword("Second123!");
+
+    const json = await exportVault(vault, {
+      format: "json",
+      includePasswords: false,
+    });
+
+    expect(json).not.toContain("Premier123!");
+  });
+});
@@ -0,0 +1,216 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { RecoveryCodeError } from "../src/crypto/errors";
+import {
+  createRecoveryKit,
+  generateRecoveryCode,
+  parseRecoveryCode,
+  recoverVault,
+  removeRecoverySlots,
+  unlockVaultWithRecoveryCode,
+} from "../src/crypto/recovery";
+import { openVault, sealVault, unlockVault } from "../src/crypto/seal";
+import { EncryptedVault, KdfParams, Vault } from "../src/types";
+import { addEntry, createVault } from "../src/vault/vault";
+
+describe("Recovery Keys", () => {
+  const masterPassword = "MasterPassword123!";
+  const kdf: KdfParams = {
+    algorithm: "argon2id",
+    iterations: 1,
+    memory: 64,
+    parallelism: 1,
+  };
+  let vault: Vault;
+  let encrypted: EncryptedVault;
+
+  // Replaces one character of the code body with a different valid one
+  const introduceTypo = (code: string): string => {
+    const replacement = code[0] === "A" ? "B" : "A";
+    return replacement + code.slice(1);
+  };
+
+  const expectRecoveryError = async (
+    promise: Promise<unknown>,
+    code: string
+  ) => {
+    try {
+      await promise;
+      expect.fail("Expected a RecoveryCodeError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(RecoveryCodeError);
+      expect((error as RecoveryCodeError).code).toBe(code);
+    }
+  };
+
+  beforeEach(async () => {
+    vault = addEntry(createVault({ name: "Personal" }), {
+      title: "Bank",
+      password: "Secret123!",
+    }).vault;
+    encrypted = await sealVault(vault, masterPassword, { kdf });
+  });
+
+  describe("generateRecoveryCode", () => {
+    it("should generate 9 groups of 4 Crockford base32 characters", async () => {
+      const code = await generateRecoveryCode();
+      expect(code).toMatch(
+        /^([0-9A-HJKMNP-TV-Z]{4}-){8}[0-9A-HJKMNP-TV-Z]{4}$/
+      );
+    });
+
+    it("should generate a different code each time", async () => {
+      expect(await generateRecoveryCode()).not.toBe(
+        await generateRecoveryCode()
+      );
+    });
+  });
+
+  describe("parseRecoveryCode", () => {
+    it("should accept a valid code typed loosely", async () => {
+      const code = await generateRecoveryCode();
+      const typed = code.replace(/-/g, " ").toLowerCase().replace(/1/g, "l");
+      expect(await parseRecoveryCode(typed)).toBe(code);
+    });
+
+    it("should report malformed codes", async () => {
+      await expectRecoveryError(
+        parseRecoveryCode("ABCD-EFGH"),
+        "INVALID_RECOVERY_CODE_FORMAT"
+      );
+      await expectRecoveryError(
+        parseRecoveryCode("U".repeat(36)),
+        "INVALID_RECOVERY_CODE_FORMAT"
+      );
+    });
+
+    it("should detect typos with the checksum", async () => {
+      const code = await generateRecoveryCode();
+      await expectRecoveryError(
+        parseRecoveryCode(introduceTypo(code)),
+        "RECOVERY_CODE_CHECKSUM_MISMATCH"
+      );
+    });
+  });
+
+  describe("createRecoveryKit", () => {
+    it("should add a recovery slot and build the emergency kit", async () => {
+      const unlocked = await unlockVault(encrypted, masterPassword);
+      const { encrypted: withSlot, kit } = await createRecoveryKit(
+        encrypted,
+        unlocked
+      );
+
+      expect(withSlot.keySlots).toHaveLength(1);
+      expect(withSlot.keySlots![0].type).toBe("recovery");
+      expect(withSlot.data).toBe(encrypted.data);
+      expect(kit).toEqual({
+        vaultName: "Personal",
+        vaultId: vault.id,
+        vaultCreatedAt: vault.createdAt.toISOString(),
+        recoveryCode: expect.any(String),
+        generatedAt: expect.any(String),
+      });
+      expect(JSON.stringify(withSlot)).not.toContain(kit.recoveryCode);
+    });
+
+    it("should replace the previous recovery slot", async () => {
+      const unlocked = await unlockVault(encrypted, masterPassword);
+      const first = await createRecoveryKit(encrypted, unlocked);
+      const second = await createRecoveryKit(first.encrypted, unlocked);
+
+      expect(second.encrypted.keySlots).toHaveLength(1);
+      await expectRecoveryError(
+        unlockVaultWithRecoveryCode(second.encrypted, first.kit.recoveryCode),
+        "WRONG_RECOVERY_CODE"
+      );
+    });
+
+    it("should refuse legacy vaults without a wrapped key", async () => {
+      const unlocked = await unlockVault(encrypted, masterPassword);
+      const { wrappedKey, ...legacy } = encrypted;
+
+      expect(wrappedKey).toBeDefined();
+      await expect(createRecoveryKit(legacy, unlocked)).rejects.toMatchObject({
+        code: "WRAPPED_KEY_REQUIRED",
+      });
+    });
+  });
+
+  describe("unlockVaultWithRecoveryCode", () => {
+    it("should unlock the vault with the recovery code", async () => {
+      const unlocked = await unlockVault(encrypted, masterPassword);
+      const { encrypted: withSlot, kit } = await createRecoveryKit(
+        encrypted,
+        unlocked
+      );
+
+      const recovered = await unlockVaultWithRecoveryCode(
+        withSlot,
+        kit.recoveryCode
+      );
+      expect(recovered.vault).toEqual(vault);
+    });
+
+    it("should distinguish a wrong code from a typo", async () => {
+      const unlocked = await unlockVault(encrypted, masterPassword);
+      const { encrypted: withSlot, kit } = await createRecoveryKit(
+        encrypted,
+        unlocked
+      );
+
+      await expectRecoveryError(
+        unlockVaultWithRecoveryCode(withSlot, await generateRecoveryCode()),
+        "WRONG_RECOVERY_CODE"
+      );
+      await expectRecoveryError(
+        unlockVaultWithRecoveryCode(withSlot, introduceTypo(kit.recoveryCode)),
+        "RECOVERY_CODE_CHECKSUM_MISMATCH"
+      );
+    });
+
+    it("should report vaults without recovery slot", async () => {
+      await expectRecoveryError(
+        unlockVaultWithRecoveryCode(encrypted, await generateRecoveryCode()),
+        "NO_RECOVERY_SLOT"
+      );
+    });
+
+    it("should stop working once the recovery slots are removed", async () => {
+      const unlocked = await unlockVault(encrypted, masterPassword);
+      const { encrypted: withSlot, kit } = await createRecoveryKit(
+        encrypted,
+        unlocked
+      );
+
+      await expectRecoveryError(
+        unlockVaultWithRecoveryCode(
+          removeRecoverySlots(withSlot),
+          kit.recoveryCode
+        ),
+        "NO_RECOVERY_SLOT"
+      );
+    });
+  });
+
+  describe("recoverVault", () => {
+    it("should set a new master password and keep the recovery slot", async () => {
+      const unlocked = await unlockVault(encrypted, masterPassword);
+      const { encrypted: withSlot, kit } = await createRecoveryKit(
+        encrypted,
+        unlocked
+      );
+
+      const recovered = await recoverVault(
+        withSlot,
+        kit.recoveryCode,
+        "BrandNewPassword789!"
+      );
+
+      await expect(
+        openVault(recovered, "BrandNewPassword789!")
+      ).resolves.toEqual(vault);
+      await expect(openVault(recovered, masterPassword)).rejects.toThrow();
+      expect(recovered.keySlots).toEqual(withSlot.keySlots);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { FieldType, Vault } from "../src/types";
+import {
+  addCustomField,
+  createCustomField,
+  updateCustomField,
+} from "../src/vault/customFields";
+import { createEntry, diffEntries, pruneRevisions } from "../src/vault/entry";
+import { clearPasswordHistory } from "../src/vault/passwordHistory";
+import {
+  getEntryHistory,
+  pruneEntryRevisions,
+  restoreEntryRevision,
+} from "../src/vault/revisions";
+import {
+  addEntry,
+  createVault,
+  getEntry,
+  updateEntry,
+} from "../src/vault/vault";
+
+describe("Entry Revisions Module", () => {
+  let vault: Vault;
+  let entryId: string;
+
+  const update = (updates: Parameters<typeof updateEntry>[2]) => {
+    vault = updateEntry(vault, entryId, updates).vault;
+  };
+
+  beforeEach(() => {
+    const added = addEntry(createVault({ name: "Perso" }), {
+      title: "Banque",
+      username: "jean",
+      password: "Premier123!",
+      tags: ["perso"],
+      customFields: [createCustomField("PIN", "1234", FieldType.PASSWORD)],
+    });
+    vault = added.vault;
+    entryId = added.entry.id;
+  });
+
+  describe("getEntryHistory", () => {
+    it("liste les modifications champ par champ, de la plus récente à la plus ancienne", () => {
+      update({ title: "Ma banque", url: "https://banque.fr" });
+      update({ tags: ["perso", "finance"], notes: "Agence" });
+
+      const history = getEntryHistory(vault, entryId);
+
+      expect(history).toHaveLength(2);
+      expect(history[0].changes).toEqual([
+        { field: "notes", current: "Agence" },
+        { field: "tags", previous: ["perso"], current: ["perso", "finance"] },
+      ]);
+      expect(history[1].changes).toEqual([
+        { field: "title", previous: "Banque", current: "Ma banque" },
+        { field: "url", current: "https://banque.fr" },
+      ]);
+      expect(history[0].changedAt).toEqual(getEntry(vault, entryId)?.updatedAt);
+    });
+
+    it("n'enregistre pas de révision sans changement", () => {
+      update({ title: "Banque", tags: ["perso"] });
+
+      expect(getEntryHistory(vault, entryId)).toEqual([]);
+    });
+
+    it("suit les champs personnalisés par nom", () => {
+      const entry = getEntry(vault, entryId)!;
+      const [pin] = entry.customFields!;
+      const updated = updateCustomField(entry, pin.id, { value: "9999" });
+
+      expect(diffEntries(entry, updated)).toEqual([
+        {
+          field: "customFields.PIN",
+          previous: pin,
+          current: { ...pin, value: "9999" },
+        },
+      ]);
+      expect(updated.revisions?.[0].entry.customFields).toEqual([pin]);
+    });
+  });
+
+  describe("restoreEntryRevision", () => {
+    it("restaure l'état d'une révision et historise l'état courant", () => {
+      update({ title: "Ma banque", url: "https://banque.fr" });
+      update({ notes: "Agence" });
+      const [, first] = getEntryHistory(vault, entryId);
+
+      const result = restoreEntryRevision(vault, entryId, first.revisionId);
+
+      expect(result.entry).toMatchObject({
+        title: "Banque",
+        password: "Premier123!",
+      });
+      expect(result.entry.url).toBeUndefined();
+      expect(result.entry.notes).toBeUndefined();
+      expect(result.entry.revisions).toHaveLength(3);
+    });
+
+    it("laisse le mot de passe à l'historique des mots de passe", () => {
+      update({ title: "Ma banque" });
+      update({ password: "Second123!" });
+      const history = getEntryHistory(vault, entryId);
+
+      const result = restoreEntryRevision(
+        vault,
+        entryId,
+        history[0].revisionId
+      );
+
+      expect(history).toHaveLength(1);
+      expect(result.entry).toMatchObject({
+        title: "Banque",
+        password: "Second123!",
+      });
+      expect(result.entry.passwordHistory?.[0].value).toBe("Premier123!");
+    });
+
+    it("signale une révision inconnue", () => {
+      const result = restoreEntryRevision(vault, entryId, "inconnue");
+
+      expect(result.vault).toBe(vault);
+      expect(result.validation.errors[0].code).toBe("REVISION_NOT_FOUND");
+    });
+  });
+
+  describe("retention", () => {
+    it("limite le nombre de révisions selon les réglages du vault", () => {
+      vault = {
+        ...vault,
+        settings: {
+          ...vault.settings,
+          security: { ...vault.settings!.security!, revisionLimit: 2 },
+        },
+      };
+      ["A", "B", "C", "D"].forEach((title) => update({ title }));
+
+      expect(
+        getEntryHistory(vault, entryId).map((item) => item.changes[0].current)
+      ).toEqual(["D", "C"]);
+    });
+
+    it("supprime les révisions trop anciennes", () => {
+      const now = new Date("2024-06-01T00:00:00Z");
+      const revision = (id: string, date: string) => ({
+        id,
+        changedAt: new Date(date),
+        entry: createEntry({ title: id }),
+      });
+      const revisions = [
+        revision("récente", "2024-05-20T00:00:00Z"),
+        revision("ancienne", "2024-04-01T00:00:00Z"),
+      ];
+
+      expect(
+        pruneRevisions(revisions, { revisionRetentionDays: 30 }, now).map(
+          (item) => item.id
+        )
+      ).toEqual(["récente"]);
+      expect(pruneRevisions(revisions, {}, now)).toHaveLength(2);
+    });
+
+    it("applique la rétention à tout le vault", () => {
+      update({ title: "Ma banque" });
+      expect(pruneEntryRevisions(vault)).toBe(vault);
+
+      const withLimit = {
+        ...vault,
+        settings: {
+          ...vault.settings,
+          security: { ...vault.settings!.security!, revisionLimit: 0 },
+        },
+      };
+
+      expect(getEntryHistory(pruneEntryRevisions(withLimit), entryId)).toEqual(
+        []
+      );
+    });
+
+    it("ne garde aucun ancien mot de passe après effacement de l'historique", () => {
+      update({ password: "Second123!", title: "Ma banque" });
+      update({ password: "Troisième123!", notes: "Agence" });
+
+      const entry = clearPasswordHistory(vault, entryId).entry;
+
+      expect(entry.passwordHistory).toEqual([]);
+      expect(entry.revisions).toHaveLength(2);
+      expect(JSON.stringify(entry.revisions)).not.toMatch(
+        /Premier123!|Second123!/
+      );
+    });
+
+    it("applique les limites du vault aux champs personnalisés", () => {
+      const entry = getEntry(vault, entryId)!;
+      const field = createCustomField("Question", "Chien");
+
+      expect(
+        addCustomField(entry, field, { settings: { revisionLimit: 0 } })
+          .revisions
+      ).toEqual([]);
+      expect(addCustomField(entry, field).revisions).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,375 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  CorruptedVaultError,
+  CryptoError,
+  UnsupportedVaultVersionError,
+  WrongPasswordError,
+} from "../src/crypto/errors";
+import {
+  DEFAULT_KDF_PARAMS,
+  deriveKey,
+  generateSalt,
+} from "../src/crypto/keyDerivation";
+import {
+  changeMasterPassword,
+  computeChecksum,
+  openVault,
+  resealVault,
+  sealVault,
+  unlockVault,
+  verifyChecksum,
+} from "../src/crypto/seal";
+import { EncryptedVault, EntryCategory, KdfParams, Vault } from "../src/types";
+import { bytesToBase64 } from "../src/utils/encoding";
+import { addEntry, createVault } from "../src/vault/vault";
+
+describe("Vault Sealing", () => {
+  const masterPassword = "MasterPassword123!";
+  // Cheap parameters keep the suite fast; defaults are covered separately
+  const kdf: KdfParams = {
+    algorithm: "argon2id",
+    iterations: 1,
+    memory: 64,
+    parallelism: 1,
+  };
+  let vault: Vault;
+
+  // Builds a vault encrypted directly with the password-derived key, as
+  // produced before the key hierarchy was introduced
+  const sealLegacyVault = async (): Promise<EncryptedVault> => {
+    const salt = generateSalt();
+    const key = await deriveKey(masterPassword, salt);
+    const empty = { data: "", iv: "", salt: bytesToBase64(salt), version: "" };
+    return resealVault(empty, vault, key);
+  };
+
+  beforeEach(() => {
+    vault = createVault({ name: "Sealed Vault" });
+    vault = addEntry(vault, {
+      title: "Gmail",
+      username: "user@gmail.com",
+      password: "Secret123!",
+      url: "https://gmail.com",
+      tags: ["email"],
+      category: EntryCategory.LOGIN,
+    }).vault;
+  });
+
+  describe("sealVault", () => {
+    it("should produce an EncryptedVault with metadata", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+
+      expect(typeof encrypted.data).toBe("string");
+      expect(typeof encrypted.salt).toBe("string");
+      expect(typeof encrypted.iv).toBe("string");
+      expect(encrypted.version).toBe(vault.version);
+      expect(encrypted.metadata).toEqual({
+        name: "Sealed Vault",
+        createdAt: vault.createdAt.toISOString(),
+        lastModified: vault.updatedAt.toISOString(),
+        entryCount: 1,
+        checksum: await computeChecksum(encrypted.data),
+      });
+    });
+
+    it("should store the KDF parameters alongside the salt", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      expect(encrypted.kdf).toEqual(kdf);
+    });
+
+    it("should use the default KDF parameters for new vaults", async () => {
+      const encrypted = await sealVault(vault, masterPassword);
+      expect(encrypted.kdf).toEqual(DEFAULT_KDF_PARAMS);
+      await expect(openVault(encrypted, masterPassword)).resolves.toEqual(
+        vault
+      );
+    });
+
+    it("should use the KDF parameters recorded in the vault settings", async () => {
+      const calibrated = {
+        ...vault,
+        settings: {
+          security: {
+            lockTimeout: 15,
+            requireMasterPasswordOnStart: true,
+            maxFailedAttempts: 5,
+            kdf,
+          },
+        },
+      };
+      const encrypted = await sealVault(calibrated, masterPassword);
+      expect(encrypted.kdf).toEqual(kdf);
+    });
+
+    it("should wrap a random vault data key", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      expect(encrypted.wrappedKey).toEqual({
+        data: expect.any(String),
+        iv: expect.any(String),
+      });
+    });
+
+    it("should reuse the provided vault data key", async () => {
+      const first = await sealVault(vault, masterPassword, { kdf });
+      const { vaultKey } = await unlockVault(first, masterPassword);
+      const second = await sealVault(vault, "OtherPassword", {
+        kdf,
+        vaultKey,
+      });
+
+      const unlocked = await unlockVault(second, "OtherPassword");
+      expect(await crypto.subtle.exportKey("jwk", unlocked.vaultKey)).toEqual(
+        await crypto.subtle.exportKey("jwk", vaultKey)
+      );
+    });
+
+    it("should not leak plaintext into the encrypted payload", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      expect(JSON.stringify(encrypted)).not.toContain("Secret123!");
+    });
+
+    it("should use a fresh salt and IV on every call", async () => {
+      const first = await sealVault(vault, masterPassword, { kdf });
+      const second = await sealVault(vault, masterPassword, { kdf });
+
+      expect(first.salt).not.toBe(second.salt);
+      expect(first.iv).not.toBe(second.iv);
+      expect(first.data).not.toBe(second.data);
+    });
+  });
+
+  describe("openVault", () => {
+    it("should restore the original vault with Date objects", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const opened = await openVault(encrypted, masterPassword);
+
+      expect(opened).toEqual(vault);
+      expect(opened.createdAt).toBeInstanceOf(Date);
+      expect(opened.entries[0].updatedAt).toBeInstanceOf(Date);
+    });
+
+    it("should fail with the wrong password", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      await expect(openVault(encrypted, "WrongPassword")).rejects.toThrow(
+        WrongPasswordError
+      );
+    });
+
+    it("should reject a payload that does not match its checksum", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const tampered = { ...encrypted, data: encrypted.data.slice(4) };
+
+      expect(await verifyChecksum(tampered)).toBe(false);
+      await expect(openVault(tampered, masterPassword)).rejects.toThrow(
+        "checksum"
+      );
+    });
+
+    it("should open legacy vaults without stored KDF parameters", async () => {
+      const encrypted = await sealLegacyVault();
+      expect(encrypted.kdf).toBeUndefined();
+      expect(encrypted.wrappedKey).toBeUndefined();
+
+      await expect(openVault(encrypted, masterPassword)).resolves.toEqual(
+        vault
+      );
+    });
+
+    it("should open vaults sealed with PBKDF2-SHA512", async () => {
+      const encrypted = await sealVault(vault, masterPassword, {
+        kdf: { algorithm: "pbkdf2-sha512", iterations: 1000 },
+      });
+      await expect(openVault(encrypted, masterPassword)).resolves.toEqual(
+        vault
+      );
+    });
+
+    it("should open a vault without checksum", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const { metadata, ...withoutMetadata } = encrypted;
+
+      expect(metadata).toBeDefined();
+      await expect(openVault(withoutMetadata, masterPassword)).resolves.toEqual(
+        vault
+      );
+    });
+
+    it("should not purge expired trash when opening", async () => {
+      const deletedAt = new Date("2000-01-01T00:00:00.000Z");
+      vault = {
+        ...vault,
+        entries: vault.entries.map((entry) => ({ ...entry, deletedAt })),
+      };
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+
+      const opened = await openVault(encrypted, masterPassword);
+
+      expect(opened.entries).toHaveLength(encrypted.metadata!.entryCount);
+      expect(opened.entries[0].deletedAt).toEqual(deletedAt);
+    });
+  });
+
+  describe("resealVault", () => {
+    it("should save changes without the master password", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const { vault: unlocked, vaultKey } = await unlockVault(
+        encrypted,
+        masterPassword
+      );
+      const updated = addEntry(unlocked, { title: "Second" }).vault;
+
+      const resealed = await resealVault(encrypted, updated, vaultKey);
+
+      expect(resealed.salt).toBe(encrypted.salt);
+      expect(resealed.wrappedKey).toEqual(encrypted.wrappedKey);
+      expect(resealed.iv).not.toBe(encrypted.iv);
+      expect(resealed.metadata?.entryCount).toBe(2);
+      await expect(openVault(resealed, masterPassword)).resolves.toEqual(
+        updated
+      );
+    });
+  });
+
+  describe("changeMasterPassword", () => {
+    const newPassword = "NewMasterPassword456!";
+
+    it("should re-encrypt the vault with the new password", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const changed = await changeMasterPassword(
+        encrypted,
+        masterPassword,
+        newPassword
+      );
+
+      expect(changed.salt).not.toBe(encrypted.salt);
+      expect(changed.kdf).toEqual(kdf);
+      await expect(openVault(changed, newPassword)).resolves.toEqual(vault);
+      await expect(openVault(changed, masterPassword)).rejects.toThrow();
+    });
+
+    it("should only re-wrap the data key", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const changed = await changeMasterPassword(
+        encrypted,
+        masterPassword,
+        newPassword
+      );
+
+      expect(changed.data).toBe(encrypted.data);
+      expect(changed.iv).toBe(encrypted.iv);
+      expect(changed.wrappedKey).not.toEqual(encrypted.wrappedKey);
+    });
+
+    it("should upgrade legacy vaults to the key hierarchy", async () => {
+      const encrypted = await sealLegacyVault();
+      const changed = await changeMasterPassword(
+        encrypted,
+        masterPassword,
+        newPassword,
+        kdf
+      );
+
+      expect(changed.wrappedKey).toBeDefined();
+      await expect(openVault(changed, newPassword)).resolves.toEqual(vault);
+    });
+
+    it("should bump the last modification date", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const changed = await changeMasterPassword(
+        encrypted,
+        masterPassword,
+        newPassword
+      );
+
+      expect(
+        new Date(changed.metadata!.lastModified).getTime()
+      ).toBeGreaterThanOrEqual(vault.updatedAt.getTime());
+      expect(changed.metadata!.createdAt).toBe(encrypted.metadata!.createdAt);
+    });
+
+    it("should apply new KDF parameters when provided", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const newKdf: KdfParams = {
+        algorithm: "pbkdf2-sha512",
+        iterations: 1000,
+      };
+      const changed = await changeMasterPassword(
+        encrypted,
+        masterPassword,
+        newPassword,
+        newKdf
+      );
+
+      expect(changed.kdf).toEqual(newKdf);
+      await expect(openVault(changed, newPassword)).resolves.toEqual(vault);
+    });
+
+    it("should leave the original untouched with a wrong old password", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const snapshot = structuredClone(encrypted);
+
+      await expect(
+        changeMasterPassword(encrypted, "WrongPassword", newPassword)
+      ).rejects.toThrow(WrongPasswordError);
+      expect(encrypted).toEqual(snapshot);
+      await expect(openVault(encrypted, masterPassword)).resolves.toEqual(
+        vault
+      );
+    });
+  });
+
+  describe("errors", () => {
+    it("should report a wrong password on legacy vaults", async () => {
+      const encrypted = await sealLegacyVault();
+      await expect(openVault(encrypted, "WrongPassword")).rejects.toThrow(
+        WrongPasswordError
+      );
+    });
+
+    it("should report a checksum mismatch as corruption", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const tampered = { ...encrypted, data: encrypted.data.slice(4) };
+
+      await expect(unlockVault(tampered, masterPassword)).rejects.toThrow(
+        CorruptedVaultError
+      );
+    });
+
+    it("should report a damaged payload as corruption", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const { checksum, ...metadata } = encrypted.metadata!;
+      const damaged = {
+        ...encrypted,
+        data: encrypted.data.slice(4),
+        metadata,
+      };
+
+      expect(checksum).toBeDefined();
+      await expect(openVault(damaged, masterPassword)).rejects.toThrow(
+        CorruptedVaultError
+      );
+    });
+
+    it("should report unknown format versions", async () => {
+      const encrypted = await sealVault(vault, masterPassword, { kdf });
+      const future = { ...encrypted, version: "99.0.0" };
+
+      try {
+        await openVault(future, masterPassword);
+        expect.fail("Expected an UnsupportedVaultVersionError");
+      } catch (error) {
+        expect(error).toBeInstanceOf(UnsupportedVaultVersionError);
+        expect(error).toBeInstanceOf(CryptoError);
+        expect((error as UnsupportedVaultVersionError).code).toBe(
+          "UNSUPPORTED_VAULT_VERSION"
+        );
+        expect((error as UnsupportedVaultVersionError).version).toBe("99.0.0");
+      }
+    });
+
+    it("should expose stable codes", () => {
+      expect(new WrongPasswordError().code).toBe("WRONG_PASSWORD");
+      expect(new CorruptedVaultError().code).toBe("CORRUPTED_VAULT");
+    });
+  });
+});
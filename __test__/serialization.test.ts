@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { deserializeVault, serializeVault } from "../src/vault/serialization";
+import { addEntry, createVault } from "../src/vault/vault";
+
+describe("Serialization Module", () => {
+  it("sérialise et restaure un vault avec ses dates", () => {
+    const { vault } = addEntry(createVault({ name: "Vault" }), {
+      title: "Entrée",
+      notes: "2024-01-01T00:00:00.000Z",
+    });
+
+    const restored = deserializeVault(serializeVault(vault));
+
+    expect(restored).toEqual(vault);
+    expect(restored.updatedAt).toBeInstanceOf(Date);
+    expect(restored.entries[0].createdAt).toBeInstanceOf(Date);
+    // Seuls les champs de date connus sont convertis
+    expect(restored.entries[0].notes).toBe("2024-01-01T00:00:00.000Z");
+  });
+
+  it("rejette un JSON qui n'est pas un vault", () => {
+    expect(() => deserializeVault('{"name": "pas un vault"}')).toThrow(
+      "Invalid vault data"
+    );
+    expect(() => deserializeVault("null")).toThrow("Invalid vault data");
+  });
+});
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { VaultSession } from "../src/types";
+import { bulkAddEntries, bulkDeleteEntries } from "../src/vault/bulk";
+import { createVaultSession, VaultSessionError } from "../src/vault/session";
+import { addEntry, createVault, updateEntry } from "../src/vault/vault";
+
+describe("Vault Session Module", () => {
+  let session: VaultSession;
+
+  beforeEach(() => {
+    session = createVaultSession(createVault({ name: "Perso" }));
+  });
+
+  it("annule et rétablit les mutations", () => {
+    const initial = session.vault;
+    const { entry } = session.apply((vault) =>
+      addEntry(vault, { title: "Banque" })
+    );
+    const added = session.vault;
+    session.apply((vault) => updateEntry(vault, entry.id, { notes: "Agence" }));
+
+    expect(session.undo()).toBe(added);
+    expect(session.undo()).toBe(initial);
+    expect(session.canUndo).toBe(false);
+    expect(session.undo()).toBe(initial);
+
+    session.redo();
+    expect(session.vault).toBe(added);
+    expect(session.canRedo).toBe(true);
+  });
+
+  it("partage les entrées inchangées entre les états", () => {
+    const { entries } = session.apply((vault) =>
+      bulkAddEntries(vault, [{ title: "Banque" }, { title: "Forum" }])
+    );
+    session.apply((vault) =>
+      updateEntry(vault, entries[0].id, { notes: "Agence" })
+    );
+    const updated = session.vault;
+
+    expect(session.undo().entries[1]).toBe(updated.entries[1]);
+  });
+
+  it("oublie les étapes annulées après une nouvelle mutation", () => {
+    session.apply((vault) => addEntry(vault, { title: "Banque" }));
+    session.undo();
+    session.apply((vault) => addEntry(vault, { title: "Forum" }));
+
+    expect(session.canRedo).toBe(false);
+    expect(session.vault.entries.map((entry) => entry.title)).toEqual([
+      "Forum",
+    ]);
+  });
+
+  it("n'enregistre pas d'étape pour une mutation sans effet", () => {
+    session.apply((vault) => bulkDeleteEntries(vault, ["inconnue"]));
+
+    expect(session.canUndo).toBe(false);
+  });
+
+  it("regroupe les mutations en une seule étape", () => {
+    const initial = session.vault;
+
+    session.group(() => {
+      const { entries } = session.apply((vault) =>
+        bulkAddEntries(vault, [{ title: "Banque" }, { title: "Forum" }])
+      );
+      session.apply((vault) =>
+        bulkDeleteEntries(
+          vault,
+          entries.map((entry) => entry.id)
+        )
+      );
+      expect(() => session.undo()).toThrow(VaultSessionError);
+      expect(() => session.redo()).toThrow("inside a group");
+    });
+
+    expect(session.undo()).toBe(initial);
+    expect(session.canUndo).toBe(false);
+  });
+
+  it("limite le nombre d'étapes conservées", () => {
+    session = createVaultSession(createVault({ name: "Perso" }), {
+      maxSteps: 2,
+    });
+    ["A", "B", "C"].forEach((title) =>
+      session.apply((vault) => addEntry(vault, { title }))
+    );
+
+    session.undo();
+    session.undo();
+
+    expect(session.canUndo).toBe(false);
+    expect(session.vault.entries.map((entry) => entry.title)).toEqual(["A"]);
+  });
+
+  it("limite la mémoire retenue par les états conservés", () => {
+    session = createVaultSession(createVault({ name: "Perso" }), {
+      maxBytes: 25000,
+    });
+    const { entry } = session.apply((vault) =>
+      addEntry(vault, { title: "Banque", notes: "a".repeat(5000) })
+    );
+    ["b", "c"].forEach((letter) =>
+      session.apply((vault) =>
+        updateEntry(vault, entry.id, { notes: letter.repeat(5000) })
+      )
+    );
+
+    session.undo();
+
+    expect(session.vault.entries[0].notes).toBe("b".repeat(5000));
+    expect(session.canUndo).toBe(false);
+  });
+
+  it("efface l'historique en gardant l'état courant", () => {
+    session.apply((vault) => addEntry(vault, { title: "Banque" }));
+    const current = session.vault;
+
+    session.clear();
+
+    expect(session.canUndo).toBe(false);
+    expect(session.vault).toBe(current);
+  });
+});
@@ -0,0 +1,152 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { RevisionConflictError, StorageError } from "../src/storage/errors";
+import { createFileVaultStorage } from "../src/storage/fileStorage";
+import { createMemoryVaultStorage } from "../src/storage/memoryStorage";
+import { EncryptedVault, VaultStorage } from "../src/types";
+
+const encrypted = (data: string): EncryptedVault => ({
+  data,
+  salt: "c2FsdA==",
+  iv: "aXY=",
+  version: "1.0.0",
+});
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(tmpdir(), "safekeys-storage-"));
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe.each([
+  ["memory", () => createMemoryVaultStorage()],
+  ["file", () => createFileVaultStorage(path.join(directory, "vaults"))],
+])("VaultStorage (%s)", (_, createStorage: () => VaultStorage) => {
+  let storage: VaultStorage;
+
+  beforeEach(() => {
+    storage = createStorage();
+  });
+
+  it("saves and loads a vault with its revision", async () => {
+    const revision = await storage.save("perso", encrypted("v1"));
+
+    expect(await storage.load("perso")).toEqual({
+      id: "perso",
+      vault: encrypted("v1"),
+      revision,
+    });
+    expect(await storage.load("absent")).toBeNull();
+  });
+
+  it("rejects a save based on a stale revision", async () => {
+    const first = await storage.save("perso", encrypted("v1"));
+    const second = await storage.save("perso", encrypted("v2"), {
+      expectedRevision: first,
+    });
+
+    await expect(
+      storage.save("perso", encrypted("v3"), { expectedRevision: first })
+    ).rejects.toMatchObject({
+      code: "REVISION_CONFLICT",
+      expectedRevision: first,
+      actualRevision: second,
+    });
+    await expect(
+      storage.save("perso", encrypted("v3"), { expectedRevision: null })
+    ).rejects.toBeInstanceOf(RevisionConflictError);
+    expect((await storage.load("perso"))?.vault).toEqual(encrypted("v2"));
+  });
+
+  it("lists the stored vaults", async () => {
+    await storage.save("travail", encrypted("t"));
+    const revision = await storage.save("perso", encrypted("p"));
+
+    const infos = await storage.list();
+
+    expect(infos.map((info) => info.id)).toEqual(["perso", "travail"]);
+    expect(infos[0]).toMatchObject({ revision, size: expect.any(Number) });
+    expect(infos[0].updatedAt).toBeInstanceOf(Date);
+  });
+
+  it("deletes a vault", async () => {
+    const revision = await storage.save("perso", encrypted("v1"));
+
+    await expect(
+      storage.delete("perso", { expectedRevision: "stale" })
+    ).rejects.toBeInstanceOf(RevisionConflictError);
+    expect(await storage.delete("perso", { expectedRevision: revision })).toBe(
+      true
+    );
+    expect(await storage.delete("perso")).toBe(false);
+    expect(await storage.list()).toEqual([]);
+  });
+
+  it("rejects ids that are not safe file names", async () => {
+    await expect(storage.load("../perso")).rejects.toBeInstanceOf(StorageError);
+    await expect(storage.save("", encrypted("v1"))).rejects.toMatchObject({
+      code: "INVALID_STORAGE_ID",
+    });
+  });
+});
+
+describe("createFileVaultStorage", () => {
+  it("keeps the replaced versions as rolling backups", async () => {
+    const storage = createFileVaultStorage(directory, { backups: 2 });
+
+    for (const data of ["v1", "v2", "v3", "v4"]) {
+      await storage.save("perso", encrypted(data));
+    }
+
+    const read = async (name: string) =>
+      JSON.parse(await fs.readFile(path.join(directory, name), "utf8")).data;
+    expect(await read("perso.json")).toBe("v4");
+    expect(await read("perso.json.1")).toBe("v3");
+    expect(await read("perso.json.2")).toBe("v2");
+    expect((await fs.readdir(directory)).sort()).toEqual([
+      "perso.json",
+      "perso.json.1",
+      "perso.json.2",
+    ]);
+  });
+
+  it("runs concurrent saves one after the other", async () => {
+    const storage = createFileVaultStorage(directory);
+    const revision = await storage.save("perso", encrypted("v1"));
+
+    const results = await Promise.allSettled([
+      storage.save("perso", encrypted("a"), { expectedRevision: revision }),
+      storage.save("perso", encrypted("b"), { expectedRevision: revision }),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect((await storage.load("perso"))?.vault).toEqual(encrypted("a"));
+  });
+
+  it("lists only the files named after a valid id", async () => {
+    const storage = createFileVaultStorage(directory);
+    await storage.save("perso", encrypted("v1"));
+    for (const name of ["mon vault.json", "_perso.json", ".json"]) {
+      await fs.writeFile(path.join(directory, name), "{}");
+    }
+
+    expect((await storage.list()).map((info) => info.id)).toEqual(["perso"]);
+  });
+
+  it("reports a stored file that is not a vault", async () => {
+    await fs.writeFile(path.join(directory, "perso.json"), "{oops");
+
+    await expect(
+      createFileVaultStorage(directory).load("perso")
+    ).rejects.toMatchObject({ code: "INVALID_STORED_VAULT" });
+  });
+});
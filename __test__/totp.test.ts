@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { OtpError } from "../src/crypto/errors";
+import {
+  formatOtpAuthUri,
+  generateHotp,
+  generateTotp,
+  normalizeOtpSecret,
+  parseOtpAuthUri,
+  parseOtpSecret,
+} from "../src/crypto/totp";
+import { OtpParams } from "../src/types";
+import { bytesToBase32 } from "../src/utils/encoding";
+
+describe("TOTP / HOTP", () => {
+  // RFC 4226 / RFC 6238 test seeds
+  const seed = (ascii: string) =>
+    bytesToBase32(new TextEncoder().encode(ascii));
+  const sha1Seed = seed("12345678901234567890");
+  const sha256Seed = seed("12345678901234567890123456789012");
+  const sha512Seed = seed(
+    "1234567890123456789012345678901234567890123456789012345678901234"
+  );
+
+  describe("generateHotp", () => {
+    it("should match the RFC 4226 test vectors", async () => {
+      const expected = ["755224", "287082", "359152", "969429", "338314"];
+
+      for (const [counter, code] of expected.entries()) {
+        expect(await generateHotp(sha1Seed, counter)).toBe(code);
+      }
+    });
+
+    it("should use the counter of HOTP parameters", async () => {
+      const params = parseOtpAuthUri(
+        `otpauth://hotp/Service:jean?secret=${sha1Seed}&counter=9`
+      );
+
+      expect(await generateHotp(params)).toBe("520489");
+    });
+  });
+
+  describe("generateTotp", () => {
+    const params = (secret: string, algorithm: OtpParams["algorithm"]) => ({
+      type: "totp" as const,
+      secret,
+      algorithm,
+      digits: 8,
+      period: 30,
+    });
+
+    it("should match the RFC 6238 test vectors", async () => {
+      const vectors: [number, string, string, string][] = [
+        [59, "94287082", "46119246", "90693936"],
+        [1111111109, "07081804", "68084774", "25091201"],
+        [2000000000, "69279037", "90698825", "38618901"],
+      ];
+
+      for (const [seconds, sha1, sha256, sha512] of vectors) {
+        const time = seconds * 1000;
+        expect((await generateTotp(params(sha1Seed, "SHA1"), time)).code).toBe(
+          sha1
+        );
+        expect(
+          (await generateTotp(params(sha256Seed, "SHA256"), time)).code
+        ).toBe(sha256);
+        expect(
+          (await generateTotp(params(sha512Seed, "SHA512"), time)).code
+        ).toBe(sha512);
+      }
+    });
+
+    it("should report the seconds before the next code", async () => {
+      const result = await generateTotp(sha1Seed, new Date(59_000));
+
+      expect(result.code).toHaveLength(6);
+      expect(result.secondsRemaining).toBe(1);
+      expect((await generateTotp(sha1Seed, 60_000)).secondsRemaining).toBe(30);
+    });
+
+    it("should accept an otpauth URI", async () => {
+      const uri = `otpauth://totp/Test?secret=${sha1Seed}&digits=8`;
+
+      expect((await generateTotp(uri, 59_000)).code).toBe("94287082");
+    });
+  });
+
+  describe("parseOtpAuthUri", () => {
+    it("should read every parameter", () => {
+      expect(
+        parseOtpAuthUri(
+          "otpauth://totp/ACME%20Co:jean@example.com?secret=jbsw%20y3dp%20ehpk%203pxp&issuer=ACME%20Co&algorithm=SHA256&digits=8&period=60"
+        )
+      ).toEqual({
+        type: "totp",
+        secret: "JBSWY3DPEHPK3PXP",
+        algorithm: "SHA256",
+        digits: 8,
+        period: 60,
+        issuer: "ACME Co",
+        label: "jean@example.com",
+      });
+    });
+
+    it("should apply the defaults", () => {
+      expect(parseOtpAuthUri("otpauth://totp/jean?secret=JBSWY3DP")).toEqual({
+        type: "totp",
+        secret: "JBSWY3DP",
+        algorithm: "SHA1",
+        digits: 6,
+        period: 30,
+        label: "jean",
+      });
+    });
+
+    it("should round-trip through formatOtpAuthUri", () => {
+      const params = parseOtpAuthUri(
+        "otpauth://hotp/GitHub:jean?secret=JBSWY3DPEHPK3PXP&counter=42"
+      );
+
+      expect(params.counter).toBe(42);
+      expect(parseOtpAuthUri(formatOtpAuthUri(params))).toEqual(params);
+    });
+
+    it("should reject malformed URIs", () => {
+      const invalid = [
+        "https://example.com/?secret=JBSWY3DP",
+        "otpauth://totp/jean",
+        "otpauth://totp/jean?secret=JBSWY3DP&algorithm=MD5",
+        "otpauth://totp/jean?secret=JBSWY3DP&digits=12",
+        "otpauth://hotp/jean?secret=JBSWY3DP",
+      ];
+
+      for (const uri of invalid) {
+        expect(() => parseOtpAuthUri(uri)).toThrow(OtpError);
+      }
+    });
+  });
+
+  describe("parseOtpSecret", () => {
+    it("should accept a bare secret", () => {
+      expect(parseOtpSecret("jbsw-y3dp ehpk-3pxp====")).toMatchObject({
+        type: "totp",
+        secret: "JBSWY3DPEHPK3PXP",
+      });
+    });
+
+    it("should reject malformed base32 secrets", () => {
+      for (const secret of ["JBSWY3D1", "JBS", "secret!", ""]) {
+        expect(() => normalizeOtpSecret(secret)).toThrow(
+          expect.objectContaining({ code: "INVALID_OTP_SECRET" })
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Vault } from "../src/types";
+import { searchEntries } from "../src/vault/search";
+import { deserializeVault, serializeVault } from "../src/vault/serialization";
+import { getVaultStats } from "../src/vault/stats";
+import {
+  emptyTrash,
+  getTrashedEntries,
+  isInTrash,
+  moveToTrash,
+  purgeTrash,
+  restoreEntry,
+} from "../src/vault/trash";
+import {
+  addEntry,
+  createVault,
+  deleteEntry,
+  getEntry,
+  updateEntry,
+} from "../src/vault/vault";
+
+describe("Trash Module", () => {
+  let vault: Vault;
+  let bankId: string;
+  let forumId: string;
+
+  const withRetention = (days: number): Vault => ({
+    ...vault,
+    settings: {
+      ...vault.settings,
+      security: { ...vault.settings!.security!, trashRetentionDays: days },
+    },
+  });
+
+  beforeEach(() => {
+    const bank = addEntry(createVault({ name: "Perso" }), {
+      title: "Banque",
+      password: "Premier123!",
+    });
+    const forum = addEntry(bank.vault, { title: "Forum", password: "abc" });
+    vault = forum.vault;
+    bankId = bank.entry.id;
+    forumId = forum.entry.id;
+  });
+
+  describe("moveToTrash", () => {
+    it("marque les entrées supprimées sans les retirer", () => {
+      vault = moveToTrash(vault, [bankId]);
+
+      expect(vault.entries).toHaveLength(2);
+      expect(isInTrash(getEntry(vault, bankId)!)).toBe(true);
+      expect(isInTrash(getEntry(vault, forumId)!)).toBe(false);
+    });
+
+    it("conserve la date de suppression d'une entrée déjà dans la corbeille", () => {
+      vault = deleteEntry(vault, bankId);
+      const { deletedAt } = getEntry(vault, bankId)!;
+
+      expect(deleteEntry(vault, bankId)).toBe(vault);
+      expect(getEntry(vault, bankId)?.deletedAt).toBe(deletedAt);
+    });
+  });
+
+  describe("restoreEntry", () => {
+    it("sort une entrée de la corbeille", () => {
+      vault = deleteEntry(vault, bankId);
+
+      const result = restoreEntry(vault, bankId);
+
+      expect(result.validation.isValid).toBe(true);
+      expect(result.entry.deletedAt).toBeUndefined();
+      expect(getTrashedEntries(result.vault)).toEqual([]);
+    });
+
+    it("refuse de modifier une entrée de la corbeille", () => {
+      vault = deleteEntry(vault, bankId);
+
+      const result = updateEntry(vault, bankId, { title: "Ma banque" });
+
+      expect(result.vault).toBe(vault);
+      expect(result.validation.errors[0].code).toBe("ENTRY_IN_TRASH");
+    });
+
+    it("signale une entrée absente de la corbeille", () => {
+      const result = restoreEntry(vault, bankId);
+
+      expect(result.vault).toBe(vault);
+      expect(result.validation.errors[0].code).toBe("TRASHED_ENTRY_NOT_FOUND");
+    });
+  });
+
+  describe("emptyTrash", () => {
+    it("supprime définitivement toute la corbeille", () => {
+      vault = moveToTrash(vault, [bankId, forumId]);
+
+      expect(emptyTrash(vault).entries).toEqual([]);
+    });
+
+    it("supprime seulement les entrées demandées de la corbeille", () => {
+      vault = moveToTrash(vault, [bankId]);
+
+      const emptied = emptyTrash(vault, [bankId, forumId]);
+
+      expect(emptied.entries.map((entry) => entry.id)).toEqual([forumId]);
+      expect(emptyTrash(emptied)).toBe(emptied);
+    });
+  });
+
+  describe("purgeTrash", () => {
+    it("supprime les entrées plus anciennes que la rétention", () => {
+      vault = deleteEntry(withRetention(7), bankId);
+      const later = new Date(Date.now() + 8 * 24 * 60 * 60 * 1000);
+
+      expect(purgeTrash(vault, later).entries.map((entry) => entry.id)).toEqual(
+        [forumId]
+      );
+      expect(purgeTrash(vault)).toBe(vault);
+    });
+
+    it("ne purge jamais avec une rétention de 0", () => {
+      vault = deleteEntry(withRetention(0), bankId);
+      const later = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+      expect(purgeTrash(vault, later)).toBe(vault);
+    });
+  });
+
+  it("exclut la corbeille de la recherche sauf si demandé", () => {
+    vault = deleteEntry(vault, bankId);
+
+    expect(searchEntries(vault, {}).entries.map((e) => e.id)).toEqual([
+      forumId,
+    ]);
+    expect(searchEntries(vault, { query: "banque" }).totalCount).toBe(0);
+    expect(
+      searchEntries(vault, { query: "banque", includeTrashed: true }).totalCount
+    ).toBe(1);
+  });
+
+  it("exclut la corbeille des statistiques sauf si demandé", () => {
+    vault = deleteEntry(vault, forumId);
+
+    const stats = getVaultStats(vault);
+
+    expect(stats.totalEntries).toBe(1);
+    expect(stats.trashedEntries).toBe(1);
+    expect(stats.weakPasswords).toBe(0);
+    expect(getVaultStats(vault, { includeTrashed: true }).totalEntries).toBe(2);
+  });
+
+  it("restaure la date de suppression à la désérialisation", () => {
+    vault = deleteEntry(vault, bankId);
+
+    const restored = deserializeVault(serializeVault(vault));
+
+    expect(getEntry(restored, bankId)?.deletedAt).toBeInstanceOf(Date);
+  });
+});
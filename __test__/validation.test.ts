@@ -66,6 +66,30 @@ describe("Zod Validation System", () => {
       expect(result.errors.some((e) => e.field === "url")).toBe(true);
     });
 
+    it("should reject malformed TOTP secrets", () => {
+      const entry = (secret: string) => ({
+        id: "test-id",
+        title: "Test Entry",
+        totp: {
+          type: "totp",
+          secret,
+          algorithm: "SHA1",
+          digits: 6,
+          period: 30,
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      expect(validateVaultEntry(entry("JBSWY3DPEHPK3PXP")).isValid).toBe(true);
+
+      for (const secret of ["JBSWY3DP1", "jbswy3dp", "JBS", ""]) {
+        const result = validateVaultEntry(entry(secret));
+        expect(result.isValid).toBe(false);
+        expect(result.errors.some((e) => e.field === "totp.secret")).toBe(true);
+      }
+    });
+
     it("should warn about weak passwords", () => {
       const entryWithWeakPassword = {
         id: "test-id",
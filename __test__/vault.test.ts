@@ -164,7 +164,7 @@ describe("Vault Module", () => {
   });
 
   describe("deleteEntry", () => {
-    it("supprime une entrée existante", () => {
+    it("place une entrée existante dans la corbeille", () => {
       // Ajouter d'abord une entrée
       const { vault: vaultWithEntry, entry } = addEntry(
         testVault,
@@ -174,7 +174,8 @@ describe("Vault Module", () => {
       // Supprimer l'entrée
       const updatedVault = deleteEntry(vaultWithEntry, entry.id);
 
-      expect(updatedVault.entries).toHaveLength(0);
+      expect(updatedVault.entries).toHaveLength(1);
+      expect(updatedVault.entries[0].deletedAt).toBeInstanceOf(Date);
       expect(updatedVault.updatedAt.getTime()).toBeGreaterThanOrEqual(
         vaultWithEntry.updatedAt.getTime()
       );
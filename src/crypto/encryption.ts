@@ -1,4 +1,9 @@
 import { aes_gcm_decrypt, aes_gcm_encrypt } from "crypto-aes-gcm";
+import {
+  CorruptedVaultError,
+  isAuthenticationFailure,
+  WrongPasswordError,
+} from "./errors";
 
 export const encryptVault = async (
   plainText: string,
@@ -7,9 +12,27 @@ export const encryptVault = async (
   return await aes_gcm_encrypt(plainText, password);
 };
 
+/**
+ * Decrypts data encrypted with encryptVault
+ * AES-GCM cannot tell a wrong password from a tampered ciphertext, so an
+ * authentication failure is reported as a wrong password; malformed input
+ * is reported as corrupted data.
+ * @param cipherText - Ciphertext returned by encryptVault
+ * @param password - Password used for encryption
+ * @returns Promise<string> - Decrypted text
+ * @throws WrongPasswordError if the ciphertext does not authenticate
+ * @throws CorruptedVaultError if the ciphertext is malformed
+ */
 export const decryptVault = async (
   cipherText: string,
   password: string
 ): Promise<string> => {
-  return await aes_gcm_decrypt(cipherText, password);
+  try {
+    return await aes_gcm_decrypt(cipherText, password);
+  } catch (error) {
+    if (isAuthenticationFailure(error)) {
+      throw new WrongPasswordError(undefined, error);
+    }
+    throw new CorruptedVaultError(undefined, error);
+  }
 };
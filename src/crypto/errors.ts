@@ -0,0 +1,142 @@
+import { SafeKeysError } from "../utils/errors";
+
+export type CryptoErrorCode =
+  | "WRONG_PASSWORD"
+  | "CORRUPTED_VAULT"
+  | "UNSUPPORTED_VAULT_VERSION"
+  | "UNSUPPORTED_KDF"
+  | "KEY_IMPORT_FAILED"
+  | "WRAPPED_KEY_REQUIRED";
+
+export type RecoveryCodeErrorCode =
+  | "INVALID_RECOVERY_CODE_FORMAT"
+  | "RECOVERY_CODE_CHECKSUM_MISMATCH"
+  | "NO_RECOVERY_SLOT"
+  | "WRONG_RECOVERY_CODE";
+
+export type OtpErrorCode = "INVALID_OTP_URI" | "INVALID_OTP_SECRET";
+
+/**
+ * Base class for errors thrown while encrypting, decrypting or unlocking a
+ * vault. Catch the subclasses (or switch on `code`) to tell a wrong
+ * password apart from a damaged or unsupported file.
+ */
+export class CryptoError extends SafeKeysError {
+  declare readonly code: CryptoErrorCode | RecoveryCodeErrorCode;
+
+  constructor(
+    code: CryptoErrorCode | RecoveryCodeErrorCode,
+    message: string,
+    cause?: unknown
+  ) {
+    super(code, message, cause);
+  }
+}
+
+/**
+ * Thrown when the master password does not unlock the vault
+ */
+export class WrongPasswordError extends CryptoError {
+  declare readonly code: "WRONG_PASSWORD";
+
+  constructor(message = "Wrong master password", cause?: unknown) {
+    super("WRONG_PASSWORD", message, cause);
+  }
+}
+
+/**
+ * Thrown when an encrypted vault is damaged: checksum mismatch, malformed
+ * encoding, or a payload that does not decrypt to a valid vault
+ */
+export class CorruptedVaultError extends CryptoError {
+  declare readonly code: "CORRUPTED_VAULT";
+
+  constructor(
+    message = "Vault data is corrupted and cannot be decrypted",
+    cause?: unknown
+  ) {
+    super("CORRUPTED_VAULT", message, cause);
+  }
+}
+
+/**
+ * Thrown when a vault was written in a format version this library cannot
+ * read (usually by a newer SafeKeys release)
+ */
+export class UnsupportedVaultVersionError extends CryptoError {
+  declare readonly code: "UNSUPPORTED_VAULT_VERSION";
+  readonly version: string;
+
+  constructor(version: string) {
+    super("UNSUPPORTED_VAULT_VERSION", `Unsupported vault version: ${version}`);
+    this.version = version;
+  }
+}
+
+/**
+ * Thrown when KDF parameters use an unknown algorithm or an out of range cost
+ */
+export class UnsupportedKdfError extends CryptoError {
+  declare readonly code: "UNSUPPORTED_KDF";
+
+  constructor(message: string) {
+    super("UNSUPPORTED_KDF", message);
+  }
+}
+
+/**
+ * Thrown when a serialized key cannot be imported back into a CryptoKey
+ */
+export class KeyImportError extends CryptoError {
+  declare readonly code: "KEY_IMPORT_FAILED";
+
+  constructor(message: string, cause?: unknown) {
+    super("KEY_IMPORT_FAILED", message, cause);
+  }
+}
+
+/**
+ * Thrown when an operation needs a vault encrypted with a wrapped data key
+ * and receives a legacy vault encrypted with the master key itself
+ */
+export class WrappedKeyRequiredError extends CryptoError {
+  declare readonly code: "WRAPPED_KEY_REQUIRED";
+
+  constructor(message: string) {
+    super("WRAPPED_KEY_REQUIRED", message);
+  }
+}
+
+/**
+ * Thrown when a recovery code is mistyped or does not unlock the vault
+ * INVALID_RECOVERY_CODE_FORMAT and RECOVERY_CODE_CHECKSUM_MISMATCH indicate a
+ * typo, WRONG_RECOVERY_CODE a well-formed code belonging to another vault
+ */
+export class RecoveryCodeError extends CryptoError {
+  declare readonly code: RecoveryCodeErrorCode;
+
+  constructor(code: RecoveryCodeErrorCode, message: string) {
+    super(code, message);
+  }
+}
+
+/**
+ * Thrown when an otpauth:// URI or a TOTP/HOTP secret cannot be used
+ */
+export class OtpError extends SafeKeysError {
+  declare readonly code: OtpErrorCode;
+
+  constructor(code: OtpErrorCode, message: string) {
+    super(code, message);
+  }
+}
+
+/**
+ * Whether a WebCrypto error is an AES-GCM authentication failure (wrong key
+ * or tampered ciphertext, which the algorithm cannot tell apart)
+ * @param error - Error thrown by crypto.subtle.decrypt
+ * @returns boolean - True for authentication failures
+ */
+export function isAuthenticationFailure(error: unknown): boolean {
+  return error instanceof Error && error.name === "OperationError";
+}
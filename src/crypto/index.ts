@@ -2,3 +2,13 @@
 export * from "./encryption";
 // Export derivation functions
 export * from "./keyDerivation";
+// Export key wrapping functions
+export * from "./keyWrapping";
+// Export vault sealing functions
+export * from "./seal";
+// Export recovery key functions
+export * from "./recovery";
+// Export TOTP/HOTP functions
+export * from "./totp";
+// Export crypto errors
+export * from "./errors";
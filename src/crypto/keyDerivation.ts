@@ -1,8 +1,120 @@
+import { argon2idAsync } from "@noble/hashes/argon2";
+import { KdfAlgorithm, KdfParams } from "../types";
+import { KeyImportError, UnsupportedKdfError } from "./errors";
+
+/**
+ * Parameters used by vaults created before KDF parameters were stored
+ * alongside the salt. Kept as the deriveKey default for compatibility.
+ */
+export const LEGACY_KDF_PARAMS: KdfParams = {
+  algorithm: "pbkdf2-sha256",
+  iterations: 100000,
+};
+
+/**
+ * Parameters used for new vaults (OWASP recommended Argon2id configuration)
+ */
+export const DEFAULT_KDF_PARAMS: KdfParams = {
+  algorithm: "argon2id",
+  iterations: 2,
+  memory: 19456,
+  parallelism: 1,
+};
+
+/**
+ * Minimum costs calibrateKdf never goes below (OWASP recommendations)
+ */
+export const MIN_KDF_PARAMS: Record<KdfAlgorithm, KdfParams> = {
+  "pbkdf2-sha256": { algorithm: "pbkdf2-sha256", iterations: 600000 },
+  "pbkdf2-sha512": { algorithm: "pbkdf2-sha512", iterations: 210000 },
+  argon2id: DEFAULT_KDF_PARAMS,
+};
+
+/**
+ * Upper bounds protecting against vault files requesting absurd costs
+ * The parameters are read from the file before it is authenticated, so the
+ * Argon2id memory stays within what browser and mobile clients can
+ * allocate for the pure JS implementation.
+ */
+const MAX_PBKDF2_ITERATIONS = 10000000;
+const MAX_ARGON2_ITERATIONS = 64;
+const MAX_ARGON2_MEMORY = 1048576; // 1 GiB in KiB
+const MAX_ARGON2_PARALLELISM = 16;
+
+const isIntegerInRange = (value: number, min: number, max: number) =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Checks that KDF parameters are supported and within sane bounds
+ * @param params - KDF parameters to check
+ * @throws UnsupportedKdfError if the algorithm is unknown or a cost is out
+ * of range
+ */
+export function assertValidKdfParams(params: KdfParams): void {
+  switch (params.algorithm) {
+    case "pbkdf2-sha256":
+    case "pbkdf2-sha512":
+      if (!isIntegerInRange(params.iterations, 1, MAX_PBKDF2_ITERATIONS)) {
+        throw new UnsupportedKdfError(
+          `Invalid PBKDF2 iterations: ${params.iterations}`
+        );
+      }
+      return;
+    case "argon2id":
+      if (
+        !isIntegerInRange(params.iterations, 1, MAX_ARGON2_ITERATIONS) ||
+        !isIntegerInRange(params.parallelism, 1, MAX_ARGON2_PARALLELISM) ||
+        !isIntegerInRange(
+          params.memory,
+          8 * params.parallelism,
+          MAX_ARGON2_MEMORY
+        )
+      ) {
+        throw new UnsupportedKdfError("Invalid Argon2id parameters");
+      }
+      return;
+    default:
+      throw new UnsupportedKdfError(
+        `Unsupported KDF algorithm: ${
+          (params as { algorithm: string }).algorithm
+        }`
+      );
+  }
+}
+
+/**
+ * Derives an AES-GCM key from a password and salt
+ * @param password - Password to derive the key from
+ * @param salt - Random salt (see generateSalt)
+ * @param params - KDF parameters (defaults to LEGACY_KDF_PARAMS)
+ * @returns Promise<CryptoKey> - 256-bit AES-GCM key
+ * @throws UnsupportedKdfError if the parameters are not supported
+ */
 export async function deriveKey(
   password: string,
-  salt: Uint8Array
+  salt: Uint8Array,
+  params: KdfParams = LEGACY_KDF_PARAMS
 ): Promise<CryptoKey> {
+  assertValidKdfParams(params);
   const enc = new TextEncoder();
+
+  if (params.algorithm === "argon2id") {
+    const rawKey = await argon2idAsync(enc.encode(password), salt, {
+      t: params.iterations,
+      m: params.memory,
+      p: params.parallelism,
+      dkLen: 32,
+    });
+
+    return crypto.subtle.importKey(
+      "raw",
+      rawKey,
+      { name: "AES-GCM", length: 256 },
+      true,
+      ["encrypt", "decrypt"]
+    );
+  }
+
   const keyMaterial = await crypto.subtle.importKey(
     "raw",
     enc.encode(password),
@@ -15,8 +127,8 @@ export async function deriveKey(
     {
       name: "PBKDF2",
       salt,
-      iterations: 100000,
-      hash: "SHA-256",
+      iterations: params.iterations,
+      hash: params.algorithm === "pbkdf2-sha512" ? "SHA-512" : "SHA-256",
     },
     keyMaterial,
     { name: "AES-GCM", length: 256 },
@@ -25,6 +137,68 @@ export async function deriveKey(
   );
 }
 
+/**
+ * Iterations used to measure PBKDF2 speed during calibration
+ */
+const PBKDF2_CALIBRATION_ITERATIONS = 10000;
+
+/**
+ * Measures how long a key derivation takes on the current device
+ */
+const measureDerivation = async (params: KdfParams): Promise<number> => {
+  const salt = generateSalt();
+  const start = performance.now();
+  await deriveKey("calibration", salt, params);
+  // Guard against timers with coarse resolution reporting 0ms
+  return Math.max(performance.now() - start, 0.1);
+};
+
+/**
+ * Recommends KDF parameters taking roughly targetMs on the current device
+ * The result never drops below MIN_KDF_PARAMS for the algorithm.
+ * For Argon2id the memory cost is kept at its minimum and the number of
+ * passes is scaled.
+ * @param targetMs - Desired derivation time in milliseconds
+ * @param algorithm - KDF algorithm to calibrate (defaults to argon2id)
+ * @returns Promise<KdfParams> - Recommended parameters
+ * @throws UnsupportedKdfError if targetMs is not a positive number
+ */
+export async function calibrateKdf(
+  targetMs: number,
+  algorithm: KdfAlgorithm = DEFAULT_KDF_PARAMS.algorithm
+): Promise<KdfParams> {
+  if (!Number.isFinite(targetMs) || targetMs <= 0) {
+    throw new UnsupportedKdfError(`Invalid calibration target: ${targetMs}`);
+  }
+
+  const floor = MIN_KDF_PARAMS[algorithm];
+
+  if (floor.algorithm === "argon2id") {
+    const elapsed = await measureDerivation({ ...floor, iterations: 1 });
+    const iterations = Math.min(
+      Math.max(Math.floor(targetMs / elapsed), floor.iterations),
+      MAX_ARGON2_ITERATIONS
+    );
+    return { ...floor, iterations };
+  }
+
+  const elapsed = await measureDerivation({
+    algorithm: floor.algorithm,
+    iterations: PBKDF2_CALIBRATION_ITERATIONS,
+  });
+  const scaled =
+    Math.round((PBKDF2_CALIBRATION_ITERATIONS * targetMs) / elapsed / 1000) *
+    1000;
+
+  return {
+    algorithm: floor.algorithm,
+    iterations: Math.min(
+      Math.max(scaled, floor.iterations),
+      MAX_PBKDF2_ITERATIONS
+    ),
+  };
+}
+
 /**
  * Generates a cryptographically secure random salt
  * @returns A 32-byte Uint8Array salt
@@ -48,6 +222,7 @@ export async function keyToString(key: CryptoKey): Promise<string> {
  * Deserializes a string back to a CryptoKey
  * @param keyString - Base64 encoded JWK string
  * @returns Promise<CryptoKey> - The reconstructed CryptoKey
+ * @throws KeyImportError if the string is not a valid serialized key
  */
 export async function stringToKey(keyString: string): Promise<CryptoKey> {
   try {
@@ -62,10 +237,11 @@ export async function stringToKey(keyString: string): Promise<CryptoKey> {
       ["encrypt", "decrypt"]
     );
   } catch (error) {
-    throw new Error(
+    throw new KeyImportError(
       `Failed to deserialize key: ${
         error instanceof Error ? error.message : "Unknown error"
-      }`
+      }`,
+      error
     );
   }
 }
@@ -0,0 +1,62 @@
+import { WrappedKey } from "../types";
+import { base64ToBytes, bytesToBase64 } from "../utils/encoding";
+import { keyToString, stringToKey } from "./keyDerivation";
+
+/**
+ * Length in bytes of the AES-GCM initialization vector
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Generates a random 256-bit vault data key
+ * The key is extractable so it can be wrapped by one or more unlock slots
+ * @returns Promise<CryptoKey> - AES-GCM key encrypting the vault payload
+ */
+export async function generateVaultKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+/**
+ * Encrypts a vault data key with a key-encryption key (KEK)
+ * @param vaultKey - Vault data key to protect
+ * @param kek - Key-encryption key, usually from deriveKey
+ * @returns Promise<WrappedKey> - Encrypted serialized key and its IV
+ */
+export async function wrapVaultKey(
+  vaultKey: CryptoKey,
+  kek: CryptoKey
+): Promise<WrappedKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const cipherText = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    kek,
+    new TextEncoder().encode(await keyToString(vaultKey))
+  );
+
+  return {
+    data: bytesToBase64(new Uint8Array(cipherText)),
+    iv: bytesToBase64(iv),
+  };
+}
+
+/**
+ * Decrypts a vault data key wrapped by wrapVaultKey
+ * @param wrappedKey - Wrapped vault data key
+ * @param kek - Key-encryption key used to wrap it
+ * @returns Promise<CryptoKey> - The vault data key
+ */
+export async function unwrapVaultKey(
+  wrappedKey: WrappedKey,
+  kek: CryptoKey
+): Promise<CryptoKey> {
+  const plainText = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToBytes(wrappedKey.iv) },
+    kek,
+    base64ToBytes(wrappedKey.data)
+  );
+
+  return stringToKey(new TextDecoder().decode(plainText));
+}
@@ -0,0 +1,262 @@
+import {
+  EmergencyKit,
+  EncryptedVault,
+  KdfParams,
+  KeySlot,
+  UnlockedVault,
+} from "../types";
+import {
+  base64ToBytes,
+  bytesToBase32,
+  bytesToBase64,
+  CROCKFORD_BASE32_ALPHABET,
+} from "../utils/encoding";
+import { generateId } from "../utils/id-generator";
+import { RecoveryCodeError, WrappedKeyRequiredError } from "./errors";
+import { deriveKey, generateSalt } from "./keyDerivation";
+import { unwrapVaultKey, wrapVaultKey } from "./keyWrapping";
+import { openVaultWithKey, setMasterPassword } from "./seal";
+
+/**
+ * Recovery codes carry 160 bits of entropy, so key stretching is only
+ * defense in depth here and a moderate cost keeps recovery fast
+ */
+export const RECOVERY_KDF_PARAMS: KdfParams = {
+  algorithm: "pbkdf2-sha256",
+  iterations: 100000,
+};
+
+const RECOVERY_CODE_BYTES = 20;
+const RECOVERY_BODY_LENGTH = 32; // 20 bytes in base32
+const RECOVERY_CHECKSUM_LENGTH = 4;
+const RECOVERY_GROUP_SIZE = 4;
+
+const RECOVERY_CODE_PATTERN = new RegExp(
+  `^[${CROCKFORD_BASE32_ALPHABET}]{${
+    RECOVERY_BODY_LENGTH + RECOVERY_CHECKSUM_LENGTH
+  }}$`
+);
+
+/**
+ * Computes the 20-bit checksum of a recovery code body (4 base32 characters)
+ */
+const computeRecoveryChecksum = async (body: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(body)
+  );
+  return bytesToBase32(
+    new Uint8Array(digest, 0, 3),
+    CROCKFORD_BASE32_ALPHABET
+  ).slice(0, RECOVERY_CHECKSUM_LENGTH);
+};
+
+/**
+ * Splits a normalized recovery code into dash-separated groups
+ */
+const formatRecoveryCode = (code: string): string => {
+  const groups = code.match(new RegExp(`.{1,${RECOVERY_GROUP_SIZE}}`, "g"));
+  return (groups || []).join("-");
+};
+
+/**
+ * Normalizes user input: case, separators and look-alike characters
+ */
+const normalizeRecoveryCode = (input: string): string => {
+  return input
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+};
+
+/**
+ * Generates a new human-typable recovery code
+ * 160 random bits plus a 20-bit checksum, in Crockford base32 grouped by 4
+ * (e.g. "7K3M-...-Q2ZD")
+ * @returns Promise<string> - Formatted recovery code
+ */
+export async function generateRecoveryCode(): Promise<string> {
+  const body = bytesToBase32(
+    crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_BYTES)),
+    CROCKFORD_BASE32_ALPHABET
+  );
+  return formatRecoveryCode(body + (await computeRecoveryChecksum(body)));
+}
+
+/**
+ * Validates a typed-in recovery code and returns its canonical form
+ * Case, spaces, dashes and look-alike characters (O/0, I/L/1) are tolerated
+ * @param input - Recovery code as typed by the user
+ * @returns Promise<string> - Formatted recovery code
+ * @throws RecoveryCodeError if the code is malformed or fails its checksum
+ */
+export async function parseRecoveryCode(input: string): Promise<string> {
+  const code = normalizeRecoveryCode(input);
+
+  if (!RECOVERY_CODE_PATTERN.test(code)) {
+    throw new RecoveryCodeError(
+      "INVALID_RECOVERY_CODE_FORMAT",
+      "Recovery code must contain 36 characters (letters and digits)"
+    );
+  }
+
+  const body = code.slice(0, RECOVERY_BODY_LENGTH);
+  const checksum = code.slice(RECOVERY_BODY_LENGTH);
+
+  if ((await computeRecoveryChecksum(body)) !== checksum) {
+    throw new RecoveryCodeError(
+      "RECOVERY_CODE_CHECKSUM_MISMATCH",
+      "Recovery code contains a typo"
+    );
+  }
+
+  return formatRecoveryCode(code);
+}
+
+/**
+ * Derives the key-encryption key of a recovery slot from a formatted code
+ */
+const deriveRecoveryKey = (
+  recoveryCode: string,
+  salt: Uint8Array,
+  kdf: KdfParams
+): Promise<CryptoKey> => {
+  const body = normalizeRecoveryCode(recoveryCode).slice(
+    0,
+    RECOVERY_BODY_LENGTH
+  );
+  return deriveKey(body, salt, kdf);
+};
+
+/**
+ * Generates a recovery code, adds it as an unlock slot and builds the
+ * printable emergency kit. Any previous recovery slot is replaced, so
+ * previously printed kits stop working.
+ * @param encrypted - Encrypted vault (must use a wrapped data key)
+ * @param unlocked - Vault and data key returned by unlockVault
+ * @returns Promise with the updated encrypted vault and the emergency kit
+ * @throws WrappedKeyRequiredError if the vault has no wrapped data key (legacy vault)
+ */
+export async function createRecoveryKit(
+  encrypted: EncryptedVault,
+  unlocked: UnlockedVault
+): Promise<{ encrypted: EncryptedVault; kit: EmergencyKit }> {
+  if (!encrypted.wrappedKey) {
+    throw new WrappedKeyRequiredError(
+      "Recovery codes require a vault with a wrapped data key: change the master password first"
+    );
+  }
+
+  const recoveryCode = await generateRecoveryCode();
+  const salt = generateSalt();
+  const kek = await deriveRecoveryKey(recoveryCode, salt, RECOVERY_KDF_PARAMS);
+  const generatedAt = new Date().toISOString();
+
+  const slot: KeySlot = {
+    id: generateId(),
+    type: "recovery",
+    salt: bytesToBase64(salt),
+    kdf: RECOVERY_KDF_PARAMS,
+    wrappedKey: await wrapVaultKey(unlocked.vaultKey, kek),
+    createdAt: generatedAt,
+  };
+
+  const keySlots = (encrypted.keySlots || []).filter(
+    (existing) => existing.type !== "recovery"
+  );
+
+  return {
+    encrypted: { ...encrypted, keySlots: [...keySlots, slot] },
+    kit: {
+      vaultName: unlocked.vault.name,
+      vaultId: unlocked.vault.id,
+      vaultCreatedAt: unlocked.vault.createdAt.toISOString(),
+      recoveryCode,
+      generatedAt,
+    },
+  };
+}
+
+/**
+ * Removes every recovery slot from an encrypted vault
+ * @param encrypted - Encrypted vault
+ * @returns EncryptedVault without recovery slots
+ */
+export function removeRecoverySlots(encrypted: EncryptedVault): EncryptedVault {
+  return {
+    ...encrypted,
+    keySlots: (encrypted.keySlots || []).filter(
+      (slot) => slot.type !== "recovery"
+    ),
+  };
+}
+
+/**
+ * Unlocks a vault with its recovery code instead of the master password
+ * @param encrypted - Encrypted vault
+ * @param recoveryCode - Recovery code as typed by the user
+ * @returns Promise<UnlockedVault> - Decrypted vault and its data key
+ * @throws RecoveryCodeError if the code is mistyped or does not match
+ */
+export async function unlockVaultWithRecoveryCode(
+  encrypted: EncryptedVault,
+  recoveryCode: string
+): Promise<UnlockedVault> {
+  const code = await parseRecoveryCode(recoveryCode);
+  const slots = (encrypted.keySlots || []).filter(
+    (slot) => slot.type === "recovery"
+  );
+
+  if (slots.length === 0) {
+    throw new RecoveryCodeError(
+      "NO_RECOVERY_SLOT",
+      "This vault has no recovery code"
+    );
+  }
+
+  for (const slot of slots) {
+    const kek = await deriveRecoveryKey(
+      code,
+      base64ToBytes(slot.salt),
+      slot.kdf
+    );
+
+    let vaultKey: CryptoKey;
+    try {
+      vaultKey = await unwrapVaultKey(slot.wrappedKey, kek);
+    } catch {
+      continue;
+    }
+
+    return { vault: await openVaultWithKey(encrypted, vaultKey), vaultKey };
+  }
+
+  throw new RecoveryCodeError(
+    "WRONG_RECOVERY_CODE",
+    "This recovery code does not unlock the vault"
+  );
+}
+
+/**
+ * Sets a new master password using the recovery code
+ * The recovery slot is kept, so the emergency kit remains valid.
+ * @param encrypted - Encrypted vault
+ * @param recoveryCode - Recovery code as typed by the user
+ * @param newPassword - New master password
+ * @param newKdfParams - KDF parameters for the new password key
+ * @returns Promise<EncryptedVault> - Vault protected by the new password
+ * @throws RecoveryCodeError if the code is mistyped or does not match
+ */
+export async function recoverVault(
+  encrypted: EncryptedVault,
+  recoveryCode: string,
+  newPassword: string,
+  newKdfParams?: KdfParams
+): Promise<EncryptedVault> {
+  const { vaultKey } = await unlockVaultWithRecoveryCode(
+    encrypted,
+    recoveryCode
+  );
+  return setMasterPassword(encrypted, vaultKey, newPassword, newKdfParams);
+}
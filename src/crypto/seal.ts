@@ -0,0 +1,354 @@
+import {
+  EncryptedVault,
+  KdfParams,
+  SealOptions,
+  UnlockedVault,
+  Vault,
+  VaultMetadata,
+} from "../types";
+import { base64ToBytes, bytesToBase64, bytesToHex } from "../utils/encoding";
+import { isSupportedVersion, upgradeVault } from "../vault/migrations";
+import { deserializeVault, serializeVault } from "../vault/serialization";
+import {
+  CorruptedVaultError,
+  isAuthenticationFailure,
+  UnsupportedVaultVersionError,
+  WrongPasswordError,
+} from "./errors";
+import {
+  DEFAULT_KDF_PARAMS,
+  deriveKey,
+  generateSalt,
+  LEGACY_KDF_PARAMS,
+} from "./keyDerivation";
+import { generateVaultKey, unwrapVaultKey, wrapVaultKey } from "./keyWrapping";
+
+/**
+ * Length in bytes of the AES-GCM initialization vector
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Computes the checksum of an encrypted vault payload
+ * @param data - Base64 encrypted payload (EncryptedVault.data)
+ * @returns Promise<string> - Hex encoded SHA-256 digest
+ */
+export async function computeChecksum(data: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(data)
+  );
+  return bytesToHex(new Uint8Array(digest));
+}
+
+/**
+ * Checks that an encrypted vault payload matches its metadata checksum
+ * Vaults without a checksum are considered valid
+ * @param encrypted - Encrypted vault to check
+ * @returns Promise<boolean> - Whether the payload is intact
+ */
+export async function verifyChecksum(
+  encrypted: EncryptedVault
+): Promise<boolean> {
+  if (!encrypted.metadata?.checksum) {
+    return true;
+  }
+  return (
+    (await computeChecksum(encrypted.data)) === encrypted.metadata.checksum
+  );
+}
+
+/**
+ * Checks that an encrypted vault can be read before decrypting it
+ * @throws UnsupportedVaultVersionError if the format version is unknown
+ * @throws CorruptedVaultError if the checksum does not match
+ */
+const assertReadable = async (encrypted: EncryptedVault): Promise<void> => {
+  if (!isSupportedVersion(encrypted.version)) {
+    throw new UnsupportedVaultVersionError(encrypted.version);
+  }
+  if (!(await verifyChecksum(encrypted))) {
+    throw new CorruptedVaultError(
+      "Vault checksum mismatch: the file may be corrupted"
+    );
+  }
+};
+
+/**
+ * Encrypts the vault payload with the vault data key
+ * Returns the ciphertext fields and freshly computed metadata
+ */
+const encryptPayload = async (
+  vault: Vault,
+  vaultKey: CryptoKey
+): Promise<Pick<EncryptedVault, "data" | "iv" | "metadata">> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const cipherText = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    vaultKey,
+    new TextEncoder().encode(serializeVault(vault))
+  );
+  const data = bytesToBase64(new Uint8Array(cipherText));
+
+  const metadata: VaultMetadata = {
+    name: vault.name,
+    createdAt: vault.createdAt.toISOString(),
+    lastModified: vault.updatedAt.toISOString(),
+    entryCount: vault.entries.length,
+    checksum: await computeChecksum(data),
+  };
+
+  return { data, iv: bytesToBase64(iv), metadata };
+};
+
+/**
+ * Decrypts a vault with an already unlocked vault data key
+ * @param encrypted - Encrypted vault
+ * @param vaultKey - Vault data key (from unlockVault or a key slot)
+ * @returns Promise<Vault> - Decrypted vault with Date objects restored and
+ * upgraded to the current format version (expired trash is left for
+ * purgeTrash)
+ * @throws UnsupportedVaultVersionError if the format version is unknown
+ * @throws CorruptedVaultError if the payload does not decrypt to a vault
+ */
+export async function openVaultWithKey(
+  encrypted: EncryptedVault,
+  vaultKey: CryptoKey
+): Promise<Vault> {
+  await assertReadable(encrypted);
+
+  let vault: Vault;
+  try {
+    const plainText = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToBytes(encrypted.iv) },
+      vaultKey,
+      base64ToBytes(encrypted.data)
+    );
+
+    vault = deserializeVault(new TextDecoder().decode(plainText));
+  } catch (error) {
+    throw new CorruptedVaultError(undefined, error);
+  }
+
+  return upgradeVault(vault);
+}
+
+/**
+ * Recovers the vault data key from the master password
+ * Legacy vaults without a wrapped key are encrypted directly with the
+ * password-derived key, which is then returned as the data key
+ * @throws WrongPasswordError if the wrapped key does not authenticate
+ * @throws CorruptedVaultError if the salt or wrapped key is malformed
+ */
+const unwrapWithPassword = async (
+  encrypted: EncryptedVault,
+  masterPassword: string
+): Promise<CryptoKey> => {
+  let salt: Uint8Array;
+  try {
+    salt = base64ToBytes(encrypted.salt);
+  } catch (error) {
+    throw new CorruptedVaultError("Vault salt is malformed", error);
+  }
+
+  const kek = await deriveKey(
+    masterPassword,
+    salt,
+    encrypted.kdf ?? LEGACY_KDF_PARAMS
+  );
+
+  if (!encrypted.wrappedKey) {
+    return kek;
+  }
+
+  try {
+    return await unwrapVaultKey(encrypted.wrappedKey, kek);
+  } catch (error) {
+    if (isAuthenticationFailure(error)) {
+      throw new WrongPasswordError(undefined, error);
+    }
+    throw new CorruptedVaultError("Vault wrapped key is malformed", error);
+  }
+};
+
+/**
+ * Encrypts a whole vault under the master password
+ * The payload is encrypted with a random vault data key, itself wrapped by
+ * a key derived from the master password. A fresh salt and IV are generated
+ * on every call.
+ * @param vault - Vault to encrypt
+ * @param masterPassword - Master password of the vault
+ * @param options - Seal options (KDF parameters default to the vault's
+ * `settings.security.kdf`, then DEFAULT_KDF_PARAMS; a new data key is
+ * generated unless `vaultKey` is given)
+ * @returns Promise<EncryptedVault> - Encrypted vault with its metadata
+ */
+export async function sealVault(
+  vault: Vault,
+  masterPassword: string,
+  options: SealOptions = {}
+): Promise<EncryptedVault> {
+  const kdf =
+    options.kdf ?? vault.settings?.security?.kdf ?? DEFAULT_KDF_PARAMS;
+  const salt = generateSalt();
+  const kek = await deriveKey(masterPassword, salt, kdf);
+  const vaultKey = options.vaultKey ?? (await generateVaultKey());
+  const { data, iv, metadata } = await encryptPayload(vault, vaultKey);
+
+  return {
+    data,
+    salt: bytesToBase64(salt),
+    iv,
+    kdf,
+    wrappedKey: await wrapVaultKey(vaultKey, kek),
+    version: vault.version,
+    metadata,
+  };
+}
+
+/**
+ * Re-encrypts an updated vault with the data key obtained from unlockVault
+ * No password derivation is needed: the salt, KDF parameters and wrapped
+ * key of the previous encrypted vault are kept as is.
+ * @param previous - Encrypted vault the data key was unlocked from
+ * @param vault - Updated vault to encrypt
+ * @param vaultKey - Vault data key returned by unlockVault
+ * @returns Promise<EncryptedVault> - Encrypted vault with updated metadata
+ */
+export async function resealVault(
+  previous: EncryptedVault,
+  vault: Vault,
+  vaultKey: CryptoKey
+): Promise<EncryptedVault> {
+  return {
+    ...previous,
+    ...(await encryptPayload(vault, vaultKey)),
+    version: vault.version,
+  };
+}
+
+/**
+ * Decrypts a vault and returns it together with its data key
+ * Keep the data key in memory while the vault is unlocked to save changes
+ * with resealVault.
+ * Vaults without stored KDF parameters are opened with LEGACY_KDF_PARAMS
+ * @param encrypted - Encrypted vault
+ * @param masterPassword - Master password of the vault
+ * @returns Promise<UnlockedVault> - Decrypted vault and its data key
+ * @throws WrongPasswordError if the master password is wrong
+ * @throws CorruptedVaultError if the vault data is damaged
+ * @throws UnsupportedVaultVersionError if the format version is unknown
+ */
+export async function unlockVault(
+  encrypted: EncryptedVault,
+  masterPassword: string
+): Promise<UnlockedVault> {
+  // Checked before the expensive key derivation as well
+  await assertReadable(encrypted);
+
+  const vaultKey = await unwrapWithPassword(encrypted, masterPassword);
+
+  try {
+    const vault = await openVaultWithKey(encrypted, vaultKey);
+    return { vault, vaultKey };
+  } catch (error) {
+    // Legacy vaults have no wrapped key: a wrong password only shows when
+    // the payload itself fails to authenticate
+    if (
+      !encrypted.wrappedKey &&
+      error instanceof CorruptedVaultError &&
+      isAuthenticationFailure(error.cause)
+    ) {
+      throw new WrongPasswordError(undefined, error.cause);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Decrypts a vault produced by sealVault
+ * @param encrypted - Encrypted vault
+ * @param masterPassword - Master password of the vault
+ * @returns Promise<Vault> - Decrypted vault with Date objects restored
+ * @throws WrongPasswordError if the master password is wrong
+ * @throws CorruptedVaultError if the vault data is damaged
+ * @throws UnsupportedVaultVersionError if the format version is unknown
+ */
+export async function openVault(
+  encrypted: EncryptedVault,
+  masterPassword: string
+): Promise<Vault> {
+  return (await unlockVault(encrypted, masterPassword)).vault;
+}
+
+/**
+ * Protects the vault data key with a new master password
+ * The key is re-wrapped with a key derived from the password and a fresh
+ * salt; the payload and the other key slots are kept as is.
+ * @param encrypted - Encrypted vault (must use a wrapped data key)
+ * @param vaultKey - Vault data key, already unlocked
+ * @param newPassword - New master password
+ * @param newKdfParams - KDF parameters (defaults to the current ones)
+ * @returns Promise<EncryptedVault> - Vault protected by the new password
+ */
+export async function setMasterPassword(
+  encrypted: EncryptedVault,
+  vaultKey: CryptoKey,
+  newPassword: string,
+  newKdfParams?: KdfParams
+): Promise<EncryptedVault> {
+  const kdf = newKdfParams ?? encrypted.kdf ?? DEFAULT_KDF_PARAMS;
+  const salt = generateSalt();
+  const kek = await deriveKey(newPassword, salt, kdf);
+
+  return {
+    ...encrypted,
+    salt: bytesToBase64(salt),
+    kdf,
+    wrappedKey: await wrapVaultKey(vaultKey, kek),
+    metadata: encrypted.metadata && {
+      ...encrypted.metadata,
+      lastModified: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Changes the master password of an encrypted vault
+ * Only the vault data key is re-wrapped with a key derived from the new
+ * password and a fresh salt: the payload itself is not re-encrypted.
+ * Legacy vaults without a wrapped key are fully re-sealed, which upgrades
+ * them to the key hierarchy. The input is never modified, so a wrong old
+ * password leaves the original vault untouched.
+ * @param encrypted - Encrypted vault
+ * @param oldPassword - Current master password
+ * @param newPassword - New master password
+ * @param newKdfParams - KDF parameters for the new key (defaults to the
+ * current ones, or DEFAULT_KDF_PARAMS for legacy vaults)
+ * @returns Promise<EncryptedVault> - Vault protected by the new password
+ * @throws WrongPasswordError if the old password is wrong
+ */
+export async function changeMasterPassword(
+  encrypted: EncryptedVault,
+  oldPassword: string,
+  newPassword: string,
+  newKdfParams?: KdfParams
+): Promise<EncryptedVault> {
+  if (!encrypted.wrappedKey) {
+    const { vault } = await unlockVault(encrypted, oldPassword);
+    const resealed = await sealVault(vault, newPassword, {
+      kdf: newKdfParams ?? encrypted.kdf ?? DEFAULT_KDF_PARAMS,
+    });
+
+    return {
+      ...resealed,
+      metadata: resealed.metadata && {
+        ...resealed.metadata,
+        lastModified: new Date().toISOString(),
+      },
+    };
+  }
+
+  const vaultKey = await unwrapWithPassword(encrypted, oldPassword);
+  return setMasterPassword(encrypted, vaultKey, newPassword, newKdfParams);
+}
@@ -0,0 +1,271 @@
+import { OtpAlgorithm, OtpParams, OtpType, TotpCode } from "../types";
+import { base32ToBytes, isBase32 } from "../utils/encoding";
+import { OtpError } from "./errors";
+
+/**
+ * Defaults of the Key Uri Format (Google Authenticator), used when an
+ * otpauth:// URI leaves a parameter out
+ */
+export const DEFAULT_OTP_PARAMS: Omit<OtpParams, "secret"> = {
+  type: "totp",
+  algorithm: "SHA1",
+  digits: 6,
+  period: 30,
+};
+
+const OTP_HASHES: Record<OtpAlgorithm, string> = {
+  SHA1: "SHA-1",
+  SHA256: "SHA-256",
+  SHA512: "SHA-512",
+};
+
+const MIN_OTP_DIGITS = 6;
+const MAX_OTP_DIGITS = 8;
+
+/**
+ * Normalizes a typed-in base32 secret: case, spaces, dashes and padding
+ * @param secret - Secret as shown by the service
+ * @returns Uppercase unpadded secret
+ * @throws OtpError if the secret is not valid base32
+ */
+export function normalizeOtpSecret(secret: string): string {
+  const normalized = secret
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/=+$/, "");
+
+  if (!isBase32(normalized)) {
+    throw new OtpError(
+      "INVALID_OTP_SECRET",
+      "OTP secret must be a base32 string (letters A-Z and digits 2-7)"
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Parses an integer URI parameter within bounds
+ */
+const parseIntegerParam = (
+  value: string | null,
+  name: string,
+  fallback: number | undefined,
+  min: number,
+  max: number
+): number | undefined => {
+  if (value === null) {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new OtpError("INVALID_OTP_URI", `Invalid otpauth ${name}: ${value}`);
+  }
+
+  return parsed;
+};
+
+/**
+ * Parses an otpauth:// URI (Key Uri Format used by authenticator QR codes)
+ * e.g. otpauth://totp/GitHub:jean?secret=JBSWY3DPEHPK3PXP&issuer=GitHub
+ * Missing parameters take the DEFAULT_OTP_PARAMS values.
+ * @param uri - otpauth:// URI
+ * @returns OtpParams - Parsed authenticator parameters
+ * @throws OtpError if the URI is malformed or its secret is not base32
+ */
+export function parseOtpAuthUri(uri: string): OtpParams {
+  let url: URL;
+  try {
+    url = new URL(uri.trim());
+  } catch {
+    throw new OtpError("INVALID_OTP_URI", "Invalid otpauth URI");
+  }
+
+  const type = url.host.toLowerCase() as OtpType;
+  if (url.protocol !== "otpauth:" || (type !== "totp" && type !== "hotp")) {
+    throw new OtpError(
+      "INVALID_OTP_URI",
+      "Expected an otpauth://totp/ or otpauth://hotp/ URI"
+    );
+  }
+
+  const secret = url.searchParams.get("secret");
+  if (!secret) {
+    throw new OtpError("INVALID_OTP_URI", "otpauth URI has no secret");
+  }
+
+  const algorithm = (url.searchParams.get("algorithm") || "SHA1")
+    .toUpperCase()
+    .replace("-", "") as OtpAlgorithm;
+  if (!(algorithm in OTP_HASHES)) {
+    throw new OtpError(
+      "INVALID_OTP_URI",
+      `Unsupported otpauth algorithm: ${algorithm}`
+    );
+  }
+
+  // The label is "Issuer:account" or just "account"
+  let label: string;
+  try {
+    label = decodeURIComponent(url.pathname.replace(/^\//, ""));
+  } catch {
+    throw new OtpError("INVALID_OTP_URI", "Invalid otpauth label");
+  }
+  const separator = label.indexOf(":");
+  const account = (
+    separator === -1 ? label : label.slice(separator + 1)
+  ).trim();
+  const issuer =
+    url.searchParams.get("issuer") ||
+    (separator === -1 ? "" : label.slice(0, separator).trim());
+
+  const counter = parseIntegerParam(
+    url.searchParams.get("counter"),
+    "counter",
+    undefined,
+    0,
+    Number.MAX_SAFE_INTEGER
+  );
+  if (type === "hotp" && counter === undefined) {
+    throw new OtpError("INVALID_OTP_URI", "HOTP URI has no counter");
+  }
+
+  return {
+    type,
+    secret: normalizeOtpSecret(secret),
+    algorithm,
+    digits: parseIntegerParam(
+      url.searchParams.get("digits"),
+      "digits",
+      DEFAULT_OTP_PARAMS.digits,
+      MIN_OTP_DIGITS,
+      MAX_OTP_DIGITS
+    ) as number,
+    period: parseIntegerParam(
+      url.searchParams.get("period"),
+      "period",
+      DEFAULT_OTP_PARAMS.period,
+      1,
+      86400
+    ) as number,
+    ...(type === "hotp" ? { counter } : {}),
+    ...(issuer ? { issuer } : {}),
+    ...(account ? { label: account } : {}),
+  };
+}
+
+/**
+ * Reads authenticator parameters from an otpauth:// URI or a bare base32
+ * secret (as exported by most password managers)
+ * @param value - otpauth:// URI or base32 secret
+ * @returns OtpParams - Parameters, with defaults for a bare secret
+ * @throws OtpError if the value is neither
+ */
+export function parseOtpSecret(value: string): OtpParams {
+  if (/^otpauth:/i.test(value.trim())) {
+    return parseOtpAuthUri(value);
+  }
+  return { ...DEFAULT_OTP_PARAMS, secret: normalizeOtpSecret(value) };
+}
+
+/**
+ * Builds the otpauth:// URI of authenticator parameters
+ * @param params - Authenticator parameters
+ * @returns otpauth:// URI, readable back with parseOtpAuthUri
+ */
+export function formatOtpAuthUri(params: OtpParams): string {
+  const label = [params.issuer, params.label]
+    .filter(Boolean)
+    .map((part) => encodeURIComponent(part as string))
+    .join(":");
+  const query = new URLSearchParams({ secret: params.secret });
+
+  if (params.issuer) {
+    query.set("issuer", params.issuer);
+  }
+  query.set("algorithm", params.algorithm);
+  query.set("digits", String(params.digits));
+  if (params.type === "hotp") {
+    query.set("counter", String(params.counter ?? 0));
+  } else {
+    query.set("period", String(params.period));
+  }
+
+  return `otpauth://${params.type}/${label}?${query.toString()}`;
+}
+
+/**
+ * Accepts a secret, an otpauth:// URI or parsed parameters
+ */
+const toOtpParams = (secret: string | OtpParams): OtpParams => {
+  return typeof secret === "string" ? parseOtpSecret(secret) : secret;
+};
+
+/**
+ * Computes the HOTP value of a counter (RFC 4226 dynamic truncation)
+ */
+const computeOtp = async (
+  params: OtpParams,
+  counter: number
+): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32ToBytes(normalizeOtpSecret(params.secret)),
+    { name: "HMAC", hash: OTP_HASHES[params.algorithm] },
+    false,
+    ["sign"]
+  );
+
+  // 8-byte big-endian counter
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+
+  const hmac = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, message.buffer)
+  );
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** params.digits).padStart(params.digits, "0");
+};
+
+/**
+ * Generates the HOTP code of a counter (RFC 4226)
+ * @param secret - Base32 secret, otpauth:// URI or parsed parameters
+ * @param counter - Counter value (defaults to the parameters' counter)
+ * @returns Promise<string> - Zero-padded code
+ * @throws OtpError if the secret is invalid
+ */
+export async function generateHotp(
+  secret: string | OtpParams,
+  counter?: number
+): Promise<string> {
+  const params = toOtpParams(secret);
+  return computeOtp(params, counter ?? params.counter ?? 0);
+}
+
+/**
+ * Generates the current TOTP code (RFC 6238)
+ * @param secret - Base32 secret, otpauth:// URI or parsed parameters
+ * @param time - Time of the code (now by default)
+ * @returns Promise<TotpCode> - Code and seconds before it changes
+ * @throws OtpError if the secret is invalid
+ */
+export async function generateTotp(
+  secret: string | OtpParams,
+  time: Date | number = Date.now()
+): Promise<TotpCode> {
+  const params = toOtpParams(secret);
+  const seconds = Math.floor(new Date(time).getTime() / 1000);
+
+  return {
+    code: await computeOtp(params, Math.floor(seconds / params.period)),
+    secondsRemaining: params.period - (seconds % params.period),
+  };
+}
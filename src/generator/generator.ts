@@ -0,0 +1,31 @@
+import { GeneratedPassword, PasswordGeneratorSettings } from "../types";
+import {
+  DEFAULT_PASSPHRASE_SETTINGS,
+  generatePassphrase,
+} from "./passphraseGenerator";
+import {
+  calculatePasswordEntropy,
+  generatePassword,
+} from "./passwordGenerator";
+
+/**
+ * Generates a password or a passphrase depending on the settings mode
+ * This is the entry point clients should use with `vault.settings.passwordGenerator`
+ * @param settings - Password generator settings (mode defaults to "characters")
+ * @returns GeneratedPassword with value, mode and entropy in bits
+ */
+export const generateFromSettings = (
+  settings: PasswordGeneratorSettings
+): GeneratedPassword => {
+  if (settings.mode === "passphrase") {
+    return generatePassphrase(
+      settings.passphrase ?? DEFAULT_PASSPHRASE_SETTINGS
+    );
+  }
+
+  return {
+    value: generatePassword(settings),
+    mode: "characters",
+    entropy: calculatePasswordEntropy(settings),
+  };
+};
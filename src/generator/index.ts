@@ -0,0 +1,11 @@
+// Export password generation functions
+export * from "./passwordGenerator";
+
+// Export passphrase generation functions
+export * from "./passphraseGenerator";
+
+// Export settings-driven generation
+export * from "./generator";
+
+// Export word list
+export * from "./wordlist";
@@ -0,0 +1,86 @@
+import { GeneratedPassword, PassphraseSettings } from "../types";
+import { randomElement, randomInt } from "../utils/random";
+import {
+  NUMBER_CHARACTERS,
+  PasswordGeneratorError,
+  SYMBOL_CHARACTERS,
+} from "./passwordGenerator";
+import { EFF_LARGE_WORDLIST } from "./wordlist";
+
+export const MAX_PASSPHRASE_WORDS = 64;
+
+export const DEFAULT_PASSPHRASE_SETTINGS: PassphraseSettings = {
+  wordCount: 6,
+  separator: "-",
+  capitalize: false,
+  includeNumber: false,
+  includeSymbol: false,
+};
+
+/**
+ * Calculates the entropy of passphrases produced by the given settings
+ * The digit and symbol are appended to a random word, so their position
+ * contributes log2(wordCount) bits on top of the character itself
+ * @param settings - Passphrase settings
+ * @param wordlist - Word list the words are drawn from
+ * @returns Entropy in bits
+ */
+export const calculatePassphraseEntropy = (
+  settings: PassphraseSettings,
+  wordlist: readonly string[] = EFF_LARGE_WORDLIST
+): number => {
+  const positionBits = Math.log2(settings.wordCount);
+  let entropy = settings.wordCount * Math.log2(wordlist.length);
+
+  if (settings.includeNumber) {
+    entropy += Math.log2(NUMBER_CHARACTERS.length) + positionBits;
+  }
+  if (settings.includeSymbol) {
+    entropy += Math.log2(SYMBOL_CHARACTERS.length) + positionBits;
+  }
+
+  return entropy;
+};
+
+/**
+ * Generates a diceware-style passphrase from the embedded EFF word list
+ * @param settings - Passphrase settings (defaults to DEFAULT_PASSPHRASE_SETTINGS)
+ * @returns GeneratedPassword with the passphrase and its entropy in bits
+ * @throws PasswordGeneratorError if the word count is invalid
+ */
+export const generatePassphrase = (
+  settings: PassphraseSettings = DEFAULT_PASSPHRASE_SETTINGS
+): GeneratedPassword => {
+  const { wordCount } = settings;
+
+  if (
+    !Number.isInteger(wordCount) ||
+    wordCount < 1 ||
+    wordCount > MAX_PASSPHRASE_WORDS
+  ) {
+    throw new PasswordGeneratorError(
+      "INVALID_WORD_COUNT",
+      `Word count must be an integer between 1 and ${MAX_PASSPHRASE_WORDS}`
+    );
+  }
+
+  const words = Array.from({ length: wordCount }, () => {
+    const word = randomElement(EFF_LARGE_WORDLIST);
+    return settings.capitalize
+      ? word.charAt(0).toUpperCase() + word.slice(1)
+      : word;
+  });
+
+  if (settings.includeNumber) {
+    words[randomInt(wordCount)] += randomElement(NUMBER_CHARACTERS);
+  }
+  if (settings.includeSymbol) {
+    words[randomInt(wordCount)] += randomElement(SYMBOL_CHARACTERS);
+  }
+
+  return {
+    value: words.join(settings.separator),
+    mode: "passphrase",
+    entropy: calculatePassphraseEntropy(settings),
+  };
+};
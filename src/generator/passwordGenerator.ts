@@ -0,0 +1,128 @@
+import { PasswordGeneratorSettings } from "../types";
+import { SafeKeysError } from "../utils/errors";
+import { randomElement, secureShuffle } from "../utils/random";
+
+export const UPPERCASE_CHARACTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+export const LOWERCASE_CHARACTERS = "abcdefghijklmnopqrstuvwxyz";
+export const NUMBER_CHARACTERS = "0123456789";
+export const SYMBOL_CHARACTERS = "!@#$%^&*()-_=+[]{};:,.<>/?~";
+
+/**
+ * Characters that are easily confused with each other when read or typed
+ */
+export const SIMILAR_CHARACTERS = "il1Lo0OI|";
+
+export const MAX_PASSWORD_LENGTH = 1024;
+
+export type PasswordGeneratorErrorCode =
+  | "INVALID_LENGTH"
+  | "NO_CHARACTER_SETS"
+  | "EMPTY_CHARACTER_SET"
+  | "INVALID_WORD_COUNT";
+
+/**
+ * Thrown when password generator settings cannot produce a password
+ */
+export class PasswordGeneratorError extends SafeKeysError {
+  declare readonly code: PasswordGeneratorErrorCode;
+
+  constructor(code: PasswordGeneratorErrorCode, message: string) {
+    super(code, message);
+  }
+}
+
+/**
+ * Builds the list of enabled character sets from the generator settings
+ * Each set is deduplicated and stripped of similar characters if requested
+ */
+const getCharacterSets = (settings: PasswordGeneratorSettings): string[][] => {
+  const sets: Array<{ name: string; characters: string }> = [];
+
+  if (settings.includeUppercase) {
+    sets.push({ name: "uppercase", characters: UPPERCASE_CHARACTERS });
+  }
+  if (settings.includeLowercase) {
+    sets.push({ name: "lowercase", characters: LOWERCASE_CHARACTERS });
+  }
+  if (settings.includeNumbers) {
+    sets.push({ name: "numbers", characters: NUMBER_CHARACTERS });
+  }
+  if (settings.includeSymbols) {
+    sets.push({
+      name: "symbols",
+      characters: settings.customSymbols ?? SYMBOL_CHARACTERS,
+    });
+  }
+
+  if (sets.length === 0) {
+    throw new PasswordGeneratorError(
+      "NO_CHARACTER_SETS",
+      "At least one character set must be enabled"
+    );
+  }
+
+  return sets.map(({ name, characters }) => {
+    // Array.from splits on code points so multi-unit symbols stay intact
+    const unique = Array.from(new Set(Array.from(characters)));
+    const filtered = settings.excludeSimilar
+      ? unique.filter((char) => !SIMILAR_CHARACTERS.includes(char))
+      : unique;
+
+    if (filtered.length === 0) {
+      throw new PasswordGeneratorError(
+        "EMPTY_CHARACTER_SET",
+        `The ${name} character set is empty with the current settings`
+      );
+    }
+
+    return filtered;
+  });
+};
+
+/**
+ * Generates a random password from the given generator settings
+ * Guarantees at least one character from every enabled character set
+ * @param settings - Password generator settings (usually from VaultSettings)
+ * @returns The generated password
+ * @throws PasswordGeneratorError if the settings cannot produce a password
+ */
+export const generatePassword = (
+  settings: PasswordGeneratorSettings
+): string => {
+  const sets = getCharacterSets(settings);
+  const { length } = settings;
+
+  if (
+    !Number.isInteger(length) ||
+    length < sets.length ||
+    length > MAX_PASSWORD_LENGTH
+  ) {
+    throw new PasswordGeneratorError(
+      "INVALID_LENGTH",
+      `Password length must be an integer between ${sets.length} and ${MAX_PASSWORD_LENGTH}`
+    );
+  }
+
+  const pool = Array.from(new Set(sets.flat()));
+
+  // One mandatory character per set, the rest drawn from the whole pool
+  const characters = sets.map((set) => randomElement(set));
+  while (characters.length < length) {
+    characters.push(randomElement(pool));
+  }
+
+  // Shuffle so the mandatory characters are not always at the start
+  return secureShuffle(characters).join("");
+};
+
+/**
+ * Estimates the entropy of passwords produced by the given settings
+ * @param settings - Password generator settings
+ * @returns Entropy in bits (length × log2 of the character pool size)
+ */
+export const calculatePasswordEntropy = (
+  settings: PasswordGeneratorSettings
+): number => {
+  const pool = new Set(getCharacterSets(settings).flat());
+  return settings.length * Math.log2(pool.size);
+};
@@ -0,0 +1,311 @@
+import {
+  CustomField,
+  EntryCategory,
+  FieldType,
+  ImportError,
+  ImportOptions,
+  ImportResult,
+  OtpParams,
+  VaultEntry,
+} from "../types";
+import { createCustomField } from "../vault/customFields";
+import { createEntry } from "../vault/entry";
+import { createVault } from "../vault/vault";
+import { ImportExportError } from "./errors";
+import {
+  addImportedEntries,
+  createTypedField,
+  ImportCandidate,
+  isValidUrl,
+  parseImportedOtp,
+} from "./pipeline";
+
+// Format d'export JSON non chiffré de Bitwarden (champs utilisés uniquement)
+interface BitwardenExport {
+  encrypted?: boolean;
+  folders?: { id: string; name: string }[];
+  items: BitwardenItem[];
+}
+
+interface BitwardenItem {
+  id?: string;
+  type: number;
+  name?: string;
+  notes?: string | null;
+  favorite?: boolean;
+  folderId?: string | null;
+  fields?: { name?: string | null; value?: string | null; type: number }[];
+  login?: {
+    uris?: { uri?: string | null }[] | null;
+    username?: string | null;
+    password?: string | null;
+    totp?: string | null;
+    fido2Credentials?: unknown[] | null;
+  };
+  card?: Record<string, string | null | undefined>;
+  identity?: Record<string, string | null | undefined>;
+  passwordHistory?: unknown[] | null;
+  creationDate?: string;
+  revisionDate?: string;
+}
+
+const BITWARDEN_ITEM_TYPES: Record<number, EntryCategory> = {
+  1: EntryCategory.LOGIN,
+  2: EntryCategory.SECURE_NOTE,
+  3: EntryCategory.CREDIT_CARD,
+  4: EntryCategory.IDENTITY,
+};
+
+const BITWARDEN_FIELD_TEXT = 0;
+const BITWARDEN_FIELD_HIDDEN = 1;
+const BITWARDEN_FIELD_BOOLEAN = 2;
+
+// Libellé, type et masquage des propriétés de carte et d'identité
+type FieldMapping = [
+  key: string,
+  label: string,
+  type: FieldType,
+  hidden?: boolean
+];
+
+const CARD_FIELDS: FieldMapping[] = [
+  ["cardholderName", "Cardholder name", FieldType.TEXT],
+  ["brand", "Brand", FieldType.TEXT],
+  ["number", "Card number", FieldType.PASSWORD, true],
+  ["code", "Security code", FieldType.PASSWORD, true],
+];
+
+const IDENTITY_FIELDS: FieldMapping[] = [
+  ["title", "Title", FieldType.TEXT],
+  ["firstName", "First name", FieldType.TEXT],
+  ["middleName", "Middle name", FieldType.TEXT],
+  ["lastName", "Last name", FieldType.TEXT],
+  ["company", "Company", FieldType.TEXT],
+  ["email", "Email", FieldType.EMAIL],
+  ["phone", "Phone", FieldType.TEXT],
+  ["address1", "Address 1", FieldType.TEXT],
+  ["address2", "Address 2", FieldType.TEXT],
+  ["address3", "Address 3", FieldType.TEXT],
+  ["city", "City", FieldType.TEXT],
+  ["state", "State", FieldType.TEXT],
+  ["postalCode", "Postal code", FieldType.TEXT],
+  ["country", "Country", FieldType.TEXT],
+  ["ssn", "Social security number", FieldType.PASSWORD, true],
+  ["passportNumber", "Passport number", FieldType.PASSWORD, true],
+  ["licenseNumber", "License number", FieldType.PASSWORD, true],
+];
+
+/**
+ * Maps the non-empty properties of a card or identity to custom fields
+ */
+const mapFields = (
+  source: Record<string, string | null | undefined> | undefined,
+  mappings: FieldMapping[]
+): CustomField[] => {
+  return mappings
+    .filter(([key]) => source?.[key])
+    .map(([key, label, type, hidden]) =>
+      createTypedField(label, source?.[key] as string, type, hidden)
+    );
+};
+
+/**
+ * Parses a Bitwarden date, ignoring missing or invalid values
+ */
+const parseDate = (value: string | undefined): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Converts a Bitwarden item into a vault entry
+ * Parts that cannot be represented are reported as warnings
+ */
+const convertItem = (
+  item: BitwardenItem,
+  category: EntryCategory,
+  folders: Map<string, string>,
+  warn: (message: string) => void
+): VaultEntry => {
+  const customFields: CustomField[] = [];
+  let url: string | undefined;
+  let totp: OtpParams | undefined;
+
+  if (item.login) {
+    const uris = (item.login.uris || [])
+      .map((entry) => entry.uri)
+      .filter((uri): uri is string => Boolean(uri));
+
+    uris.forEach((uri, index) => {
+      if (url === undefined && isValidUrl(uri)) {
+        url = uri;
+      } else {
+        const name = index === 0 ? "URL" : `URL ${index + 1}`;
+        customFields.push(createTypedField(name, uri, FieldType.URL));
+      }
+    });
+
+    if (item.login.totp) {
+      totp = parseImportedOtp(item.login.totp);
+      if (!totp) {
+        warn("TOTP secret format is not supported, kept as a custom field");
+        customFields.push(
+          createCustomField("TOTP", item.login.totp, FieldType.PASSWORD, true)
+        );
+      }
+    }
+    if (item.login.fido2Credentials?.length) {
+      warn("Passkeys are not supported and were not imported");
+    }
+  }
+
+  if (item.card) {
+    customFields.push(...mapFields(item.card, CARD_FIELDS));
+
+    const { expMonth, expYear } = item.card;
+    if (expMonth || expYear) {
+      const expiration = [expMonth?.padStart(2, "0"), expYear]
+        .filter(Boolean)
+        .join("/");
+      customFields.push(createCustomField("Expiration", expiration));
+    }
+  }
+
+  if (item.identity) {
+    customFields.push(...mapFields(item.identity, IDENTITY_FIELDS));
+  }
+
+  for (const field of item.fields || []) {
+    const name = field.name || "Field";
+    const value = field.value || "";
+
+    switch (field.type) {
+      case BITWARDEN_FIELD_TEXT:
+      case BITWARDEN_FIELD_BOOLEAN:
+        customFields.push(createCustomField(name, value));
+        break;
+      case BITWARDEN_FIELD_HIDDEN:
+        customFields.push(
+          createCustomField(name, value, FieldType.PASSWORD, true)
+        );
+        break;
+      default:
+        warn(`Linked custom field "${name}" is not supported`);
+    }
+  }
+
+  if (item.passwordHistory?.length) {
+    warn("Password history was not imported");
+  }
+
+  const folder = item.folderId ? folders.get(item.folderId) : undefined;
+  const entry = createEntry({
+    title: (item.name || "").trim(),
+    username: item.login?.username || item.identity?.username || undefined,
+    password: item.login?.password || undefined,
+    url,
+    notes: item.notes || undefined,
+    tags: folder ? [folder] : [],
+    favorite: item.favorite === true,
+    category,
+    customFields,
+    totp,
+  });
+
+  const createdAt = parseDate(item.creationDate) || entry.createdAt;
+  const updatedAt = parseDate(item.revisionDate) || createdAt;
+
+  return { ...entry, createdAt, updatedAt };
+};
+
+/**
+ * Parses and checks the top-level structure of a Bitwarden export
+ */
+const parseBitwardenExport = (json: string): BitwardenExport => {
+  let parsed: BitwardenExport;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ImportExportError(
+      "INVALID_IMPORT_DATA",
+      "Bitwarden export is not valid JSON"
+    );
+  }
+
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.items)) {
+    throw new ImportExportError(
+      "INVALID_IMPORT_DATA",
+      "Invalid Bitwarden export: missing items"
+    );
+  }
+  if (parsed.encrypted) {
+    throw new ImportExportError(
+      "UNSUPPORTED_IMPORT_FORMAT",
+      "Encrypted Bitwarden exports are not supported: export as unencrypted JSON"
+    );
+  }
+
+  return parsed;
+};
+
+/**
+ * Imports an unencrypted Bitwarden JSON export
+ * Logins, secure notes, cards and identities become entries of the matching
+ * category; folders become tags; card, identity and custom fields become
+ * custom fields (hidden ones stay hidden). Unsupported item types are
+ * skipped and reported as errors, unsupported parts of an item (linked
+ * fields, passkeys, password history) as warnings.
+ * @param json - Content of the Bitwarden export file
+ * @param options - Import options (target vault, a new one by default, and
+ * duplicate strategy)
+ * @returns ImportResult - Updated vault and import report
+ * @throws ImportExportError if the file is not an unencrypted Bitwarden export
+ */
+export const importBitwarden = (
+  json: string,
+  options: ImportOptions = {}
+): ImportResult => {
+  const data = parseBitwardenExport(json);
+  const folders = new Map(
+    (data.folders || []).map((folder) => [folder.id, folder.name])
+  );
+  const candidates: ImportCandidate[] = [];
+  const report: ImportError[] = [];
+  let rejectedCount = 0;
+
+  for (const item of data.items) {
+    const label = item?.name ? `"${item.name}"` : "Item";
+    const itemData = { id: item?.id, name: item?.name };
+    const category = BITWARDEN_ITEM_TYPES[item?.type];
+
+    if (!category) {
+      rejectedCount++;
+      report.push({
+        message: `${label}: unsupported Bitwarden item type ${item?.type}`,
+        severity: "error",
+        data: itemData,
+      });
+      continue;
+    }
+
+    const warn = (message: string) =>
+      report.push({
+        message: `${label}: ${message}`,
+        severity: "warning",
+        data: itemData,
+      });
+
+    candidates.push({ entry: convertItem(item, category, folders, warn) });
+  }
+
+  return addImportedEntries(
+    options.vault || createVault({ name: "Bitwarden" }),
+    candidates,
+    report,
+    rejectedCount,
+    options.duplicates
+  );
+};
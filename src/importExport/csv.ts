@@ -0,0 +1,147 @@
+/**
+ * Record separator mandated by RFC 4180
+ */
+export const CSV_LINE_SEPARATOR = "\r\n";
+
+/**
+ * Quotes a CSV field when needed (RFC 4180)
+ * Fields containing a comma, a double quote or a line break are enclosed in
+ * double quotes, and embedded double quotes are doubled.
+ * @param value - Raw field value
+ * @returns Field ready to be written to a CSV record
+ */
+export const escapeCsvField = (value: string): string => {
+  if (!/[",\r\n]/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/"/g, '""')}"`;
+};
+
+/**
+ * Builds a CSV document from rows of raw values
+ * @param rows - Rows of fields (the header row included)
+ * @returns CSV text with CRLF record separators
+ */
+export const stringifyCsv = (rows: string[][]): string => {
+  return rows
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join(CSV_LINE_SEPARATOR);
+};
+
+/**
+ * CSV record with the line it starts on
+ */
+export interface CsvRecord {
+  fields: string[];
+  line: number; // Première ligne de l'enregistrement (à partir de 1)
+}
+
+/**
+ * Parses CSV text (RFC 4180), tolerating LF and CR line endings
+ * Quoted fields may contain commas, doubled quotes and line breaks. A
+ * malformed record (text after a closing quote, unterminated quote) is
+ * reported with its line number and left out of the records. Blank lines
+ * are ignored.
+ * @param text - CSV document
+ * @returns Parsed records and malformed record errors
+ */
+export const parseCsv = (
+  text: string
+): { records: CsvRecord[]; errors: { line: number; message: string }[] } => {
+  const records: CsvRecord[] = [];
+  const errors: { line: number; message: string }[] = [];
+  // Byte order mark added by spreadsheet software
+  const input = text.replace(/^\uFEFF/, "");
+
+  let fields: string[] = [];
+  let field = "";
+  let line = 1;
+  let recordLine = 1;
+  let malformed: string | undefined;
+  let position = 0;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (malformed) {
+      errors.push({ line: recordLine, message: malformed });
+    } else if (fields.length > 1 || fields[0] !== "") {
+      records.push({ fields, line: recordLine });
+    }
+    fields = [];
+    field = "";
+    malformed = undefined;
+  };
+
+  while (position < input.length) {
+    const char = input[position];
+
+    if (char === '"' && field === "") {
+      // Quoted field: read up to the closing quote
+      let value = "";
+      position++;
+
+      for (;;) {
+        if (position >= input.length) {
+          malformed = "Unterminated quoted field";
+          break;
+        }
+        const next = input[position];
+        if (next === '"') {
+          if (input[position + 1] === '"') {
+            value += '"';
+            position += 2;
+            continue;
+          }
+          position++;
+          break;
+        }
+        if (next === "\n" || (next === "\r" && input[position + 1] !== "\n")) {
+          line++;
+        }
+        value += next;
+        position++;
+      }
+
+      field = value;
+      const after = input[position];
+      if (
+        after !== undefined &&
+        after !== "," &&
+        after !== "\r" &&
+        after !== "\n"
+      ) {
+        malformed = malformed || "Unexpected text after a quoted field";
+        // Skip the rest of the field
+        while (
+          position < input.length &&
+          input[position] !== "," &&
+          input[position] !== "\r" &&
+          input[position] !== "\n"
+        ) {
+          position++;
+        }
+      }
+      continue;
+    }
+
+    if (char === ",") {
+      fields.push(field);
+      field = "";
+      position++;
+    } else if (char === "\r" || char === "\n") {
+      endRecord();
+      position += char === "\r" && input[position + 1] === "\n" ? 2 : 1;
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+      position++;
+    }
+  }
+
+  if (fields.length > 0 || field !== "" || malformed) {
+    endRecord();
+  }
+
+  return { records, errors };
+};
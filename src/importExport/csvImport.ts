@@ -0,0 +1,265 @@
+import {
+  CreateVaultEntryData,
+  CsvColumnTarget,
+  CsvMapping,
+  CsvPreset,
+  CustomField,
+  EntryCategory,
+  FieldType,
+  ImportError,
+  ImportOptions,
+  ImportResult,
+} from "../types";
+import { createEntry } from "../vault/entry";
+import { createVault } from "../vault/vault";
+import { parseCsv } from "./csv";
+import {
+  CSV_PRESETS,
+  detectCsvPreset,
+  GENERIC_CSV_MAPPING,
+} from "./csvPresets";
+import { ImportExportError } from "./errors";
+import { CSV_CUSTOM_FIELD_PREFIX } from "./export";
+import {
+  addImportedEntries,
+  createTypedField,
+  ImportCandidate,
+  isValidUrl,
+  parseImportedOtp,
+} from "./pipeline";
+
+const TRUE_VALUES = ["true", "1", "yes", "y", "x"];
+
+/**
+ * Resolves the target of every column of the header
+ * Unmapped columns become text custom fields named after their header
+ * (without the "field:" prefix of SafeKeys exports).
+ */
+const resolveColumns = (
+  headers: string[],
+  mapping: CsvMapping
+): CsvColumnTarget[] => {
+  const targets = new Map(
+    Object.entries(mapping.columns).map(([header, target]) => [
+      header.trim().toLowerCase(),
+      target,
+    ])
+  );
+
+  return headers.map((header) => {
+    const target = targets.get(header.toLowerCase());
+    if (target) {
+      return target;
+    }
+    return {
+      customField: header.startsWith(CSV_CUSTOM_FIELD_PREFIX)
+        ? header.slice(CSV_CUSTOM_FIELD_PREFIX.length)
+        : header,
+    };
+  });
+};
+
+/**
+ * Parses a CSV date: Unix time in milliseconds or seconds, or ISO 8601
+ */
+const parseCsvDate = (value: string): Date | undefined => {
+  const timestamp = Number(value);
+  const date = /^\d+$/.test(value)
+    ? new Date(timestamp < 1e11 ? timestamp * 1000 : timestamp)
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Builds an entry from the values of one CSV record
+ * Unusable values are reported as warnings and left out
+ */
+const buildCandidate = (
+  values: string[],
+  columns: CsvColumnTarget[],
+  mapping: CsvMapping,
+  line: number,
+  warn: (field: string, message: string) => void
+): ImportCandidate => {
+  const data: Partial<CreateVaultEntryData> = {};
+  const tags: string[] = [];
+  const customFields: CustomField[] = [];
+  let createdAt: Date | undefined;
+  let updatedAt: Date | undefined;
+
+  columns.forEach((target, index) => {
+    const value = (values[index] ?? "").trim();
+    if (!value || target === "ignore") {
+      return;
+    }
+
+    if (typeof target === "object") {
+      customFields.push(
+        createTypedField(
+          target.customField,
+          value,
+          target.type || FieldType.TEXT,
+          target.hidden
+        )
+      );
+      return;
+    }
+
+    switch (target) {
+      case "tags":
+        tags.push(
+          ...value
+            .split(mapping.tagSeparator || ";")
+            .map((tag) => tag.trim())
+            .filter((tag) => tag && !tags.includes(tag))
+        );
+        break;
+      case "category":
+        if (Object.values(EntryCategory).includes(value as EntryCategory)) {
+          data.category = value as EntryCategory;
+        } else {
+          warn(target, `Unknown category "${value}"`);
+        }
+        break;
+      case "favorite":
+        data.favorite = TRUE_VALUES.includes(value.toLowerCase());
+        break;
+      case "totp":
+        data.totp = data.totp || parseImportedOtp(value);
+        if (!data.totp) {
+          warn(
+            target,
+            "TOTP secret format is not supported, kept as a custom field"
+          );
+          customFields.push(
+            createTypedField("TOTP", value, FieldType.PASSWORD, true)
+          );
+        }
+        break;
+      case "createdAt":
+      case "updatedAt": {
+        const date = parseCsvDate(value);
+        if (!date) {
+          warn(target, `Invalid date "${value}"`);
+        } else if (target === "createdAt") {
+          createdAt = date;
+        } else {
+          updatedAt = date;
+        }
+        break;
+      }
+      default:
+        // The first non-empty column wins when several feed the same field
+        data[target] = data[target] || value;
+    }
+  });
+
+  if (data.url && !isValidUrl(data.url)) {
+    customFields.unshift(createTypedField("URL", data.url, FieldType.URL));
+    data.url = undefined;
+  }
+  if (!data.title && data.url) {
+    data.title = new URL(data.url).hostname;
+  }
+
+  const entry = createEntry({
+    ...data,
+    title: data.title || "",
+    tags,
+    customFields,
+  });
+
+  return {
+    entry: {
+      ...entry,
+      createdAt: createdAt || entry.createdAt,
+      updatedAt: updatedAt || createdAt || entry.updatedAt,
+    },
+    line,
+  };
+};
+
+/**
+ * Gets the mapping of a preset, ignoring inherited keys like "constructor"
+ */
+const presetMapping = (preset: string): CsvMapping | undefined =>
+  Object.prototype.hasOwnProperty.call(CSV_PRESETS, preset)
+    ? CSV_PRESETS[preset as CsvPreset]
+    : undefined;
+
+/**
+ * Imports a CSV file using a column mapping
+ * Without mapping, the header is matched against the built-in presets
+ * (Chrome, Edge, Firefox, 1Password, LastPass, SafeKeys exports) and falls
+ * back to common header names. Columns without a mapping become text
+ * custom fields. Malformed records and invalid entries are skipped and
+ * reported with their line number.
+ * @param text - CSV document, its first record being the header
+ * @param mapping - Column mapping or preset name (detected by default)
+ * @param options - Import options (target vault, a new one by default, and
+ * duplicate strategy)
+ * @returns ImportResult - Updated vault and import report
+ * @throws ImportExportError if the file has no header or the preset is
+ * unknown
+ */
+export const importCsv = (
+  text: string,
+  mapping?: CsvMapping | CsvPreset,
+  options: ImportOptions = {}
+): ImportResult => {
+  const { records, errors: parseErrors } = parseCsv(text);
+  const [header, ...rows] = records;
+
+  if (!header) {
+    throw new ImportExportError("INVALID_IMPORT_DATA", "CSV file is empty");
+  }
+
+  const headers = header.fields.map((field) => field.trim());
+  const resolved =
+    typeof mapping === "string"
+      ? presetMapping(mapping)
+      : mapping ||
+        CSV_PRESETS[detectCsvPreset(headers) as CsvPreset] ||
+        GENERIC_CSV_MAPPING;
+
+  if (!resolved) {
+    throw new ImportExportError(
+      "UNSUPPORTED_IMPORT_FORMAT",
+      `Unknown CSV preset: ${mapping}`
+    );
+  }
+
+  const columns = resolveColumns(headers, resolved);
+  const report: ImportError[] = parseErrors.map(({ line, message }) => ({
+    line,
+    message,
+    severity: "error",
+  }));
+  const candidates: ImportCandidate[] = [];
+  let rejectedCount = parseErrors.length;
+
+  for (const { fields, line } of rows) {
+    if (fields.length > headers.length) {
+      rejectedCount++;
+      report.push({
+        line,
+        message: `Expected ${headers.length} fields but found ${fields.length}`,
+        severity: "error",
+      });
+      continue;
+    }
+
+    const warn = (field: string, message: string) =>
+      report.push({ line, field, message, severity: "warning" });
+
+    candidates.push(buildCandidate(fields, columns, resolved, line, warn));
+  }
+
+  return addImportedEntries(
+    options.vault || createVault({ name: "CSV import" }),
+    candidates,
+    report.sort((a, b) => (a.line ?? 0) - (b.line ?? 0)),
+    rejectedCount,
+    options.duplicates
+  );
+};
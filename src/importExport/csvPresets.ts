@@ -0,0 +1,121 @@
+import { CsvMapping, CsvPreset } from "../types";
+import { CSV_EXPORT_COLUMNS } from "./export";
+
+/**
+ * Column mappings of the CSV exports of common browsers and managers
+ */
+export const CSV_PRESETS: Record<CsvPreset, CsvMapping> = {
+  chrome: {
+    columns: {
+      name: "title",
+      url: "url",
+      username: "username",
+      password: "password",
+      note: "notes",
+    },
+  },
+  edge: {
+    columns: {
+      name: "title",
+      url: "url",
+      username: "username",
+      password: "password",
+    },
+  },
+  firefox: {
+    columns: {
+      url: "url",
+      username: "username",
+      password: "password",
+      httpRealm: "ignore",
+      formActionOrigin: "ignore",
+      guid: "ignore",
+      timeCreated: "createdAt",
+      timeLastUsed: "ignore",
+      timePasswordChanged: "updatedAt",
+    },
+  },
+  "1password": {
+    columns: {
+      Title: "title",
+      Url: "url",
+      Username: "username",
+      Password: "password",
+      OTPAuth: "totp",
+      Favorite: "favorite",
+      Archived: "ignore",
+      Tags: "tags",
+      Notes: "notes",
+    },
+  },
+  lastpass: {
+    columns: {
+      url: "url",
+      username: "username",
+      password: "password",
+      totp: "totp",
+      extra: "notes",
+      name: "title",
+      grouping: "tags",
+      fav: "favorite",
+    },
+  },
+  safekeys: {
+    columns: Object.fromEntries(
+      CSV_EXPORT_COLUMNS.map((column) => [column, column])
+    ),
+  },
+};
+
+/**
+ * Header aliases used when no preset matches the CSV header
+ */
+export const GENERIC_CSV_MAPPING: CsvMapping = {
+  columns: {
+    title: "title",
+    name: "title",
+    username: "username",
+    login: "username",
+    user: "username",
+    email: "username",
+    password: "password",
+    totp: "totp",
+    otp: "totp",
+    otpauth: "totp",
+    url: "url",
+    uri: "url",
+    website: "url",
+    notes: "notes",
+    note: "notes",
+    comments: "notes",
+    tags: "tags",
+    category: "category",
+    favorite: "favorite",
+  },
+};
+
+/**
+ * Finds the preset whose columns all appear in a CSV header
+ * The most specific preset (the one with the most columns) wins.
+ * @param headers - Header row of the CSV file
+ * @returns Matching preset name, or undefined
+ */
+export const detectCsvPreset = (headers: string[]): CsvPreset | undefined => {
+  const present = new Set(headers.map((header) => header.trim().toLowerCase()));
+  let detected: CsvPreset | undefined;
+  let detectedSize = 0;
+
+  for (const [preset, mapping] of Object.entries(CSV_PRESETS)) {
+    const columns = Object.keys(mapping.columns);
+    const matches = columns.every((column) =>
+      present.has(column.toLowerCase())
+    );
+
+    if (matches && columns.length > detectedSize) {
+      detected = preset as CsvPreset;
+      detectedSize = columns.length;
+    }
+  }
+
+  return detected;
+};
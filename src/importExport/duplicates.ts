@@ -0,0 +1,304 @@
+import {
+  CustomField,
+  DEFAULT_PASSWORD_HISTORY_LIMIT,
+  DuplicateMatch,
+  DuplicateStrategy,
+  ImportDuplicate,
+  PasswordHistoryEntry,
+  SecuritySettings,
+  VaultEntry,
+} from "../types";
+import { generateId } from "../utils/id-generator";
+import { updateEntryData } from "../vault/entry";
+import { isInTrash } from "../vault/trash";
+import { ImportCandidate } from "./pipeline";
+
+/**
+ * Normalizes a URL to its host, without "www." (undefined if invalid)
+ */
+const normalizeHost = (url: string | undefined): string | undefined => {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Trims and lowercases a value for comparison
+ */
+const normalize = (value: string | undefined): string =>
+  (value || "").trim().toLowerCase();
+
+/**
+ * Computes the keys under which an entry is considered a duplicate
+ * Same id, same URL host and username, or same title and username
+ */
+const duplicateKeys = (entry: VaultEntry): [DuplicateMatch, string][] => {
+  const username = normalize(entry.username);
+  const host = normalizeHost(entry.url);
+  const keys: [DuplicateMatch, string][] = [["id", `id:${entry.id}`]];
+
+  if (host) {
+    keys.push(["url", `url:${host}\n${username}`]);
+  }
+  keys.push(["title", `title:${normalize(entry.title)}\n${username}`]);
+
+  return keys;
+};
+
+/**
+ * Properties of an existing entry an imported one does not replace
+ */
+const KEPT_FIELDS: (keyof VaultEntry)[] = [
+  "id",
+  "createdAt",
+  "updatedAt",
+  "passwordHistory",
+  "revisions",
+];
+
+/**
+ * Adds previous passwords of an imported entry to the history of the entry
+ * it was applied to
+ * Passwords already in the history or in use are left out, and the oldest
+ * ones are dropped beyond the vault's limit.
+ */
+const addImportedHistory = (
+  entry: VaultEntry,
+  imported: PasswordHistoryEntry[],
+  settings: Partial<SecuritySettings>
+): VaultEntry => {
+  const history = entry.passwordHistory || [];
+  const known = new Set([entry.password, ...history.map(({ value }) => value)]);
+  const added = imported.filter(({ value }) => !known.has(value));
+
+  if (added.length === 0) {
+    return entry;
+  }
+  return {
+    ...entry,
+    passwordHistory: [...history, ...added]
+      .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime())
+      .slice(
+        0,
+        Math.max(
+          settings.passwordHistoryLimit ?? DEFAULT_PASSWORD_HISTORY_LIMIT,
+          0
+        )
+      ),
+  };
+};
+
+/**
+ * Replaces an entry with an imported one
+ * The replacement goes through updateEntryData, so the replaced password
+ * and state are kept in the entry's history.
+ * @param existing - Entry already in the vault (its id, creation date and
+ * history are kept)
+ * @param imported - Imported entry
+ * @param settings - Vault security settings holding the history limits
+ * @returns Updated entry
+ */
+const overwriteEntry = (
+  existing: VaultEntry,
+  imported: VaultEntry,
+  settings: Partial<SecuritySettings>
+): VaultEntry => {
+  const values = Object.fromEntries(
+    Object.entries(imported).filter(
+      ([field]) => !KEPT_FIELDS.includes(field as keyof VaultEntry)
+    )
+  );
+  const cleared = Object.fromEntries(
+    Object.keys(existing)
+      .filter(
+        (field) =>
+          !(field in values) && !KEPT_FIELDS.includes(field as keyof VaultEntry)
+      )
+      .map((field) => [field, undefined])
+  );
+
+  return addImportedHistory(
+    updateEntryData(existing, { ...cleared, ...values }, settings),
+    imported.passwordHistory || [],
+    settings
+  );
+};
+
+/**
+ * Merges two versions of an entry
+ * The most recently updated one wins for conflicting values, empty values
+ * are filled from the other one, and tags and custom fields are combined
+ * (custom fields by name). The merge goes through updateEntryData: the
+ * existing entry keeps its history, a replaced password is added to it
+ * along with the imported entry's previous passwords, and so is the
+ * imported password when the existing one wins.
+ * @param existing - Entry already in the vault (its id, creation date and
+ * history are kept)
+ * @param imported - Imported entry
+ * @param settings - Vault security settings holding the history limits
+ * (defaults when missing)
+ * @returns Merged entry
+ */
+export const mergeEntries = (
+  existing: VaultEntry,
+  imported: VaultEntry,
+  settings: Partial<SecuritySettings> = {}
+): VaultEntry => {
+  const [newer, older] =
+    imported.updatedAt > existing.updatedAt
+      ? [imported, existing]
+      : [existing, imported];
+  const fieldNames = new Set(
+    (newer.customFields || []).map((field) => field.name)
+  );
+  const customFields: CustomField[] = [
+    ...(newer.customFields || []),
+    ...(older.customFields || []).filter(
+      (field) => !fieldNames.has(field.name)
+    ),
+  ];
+
+  const values = (entry: VaultEntry) =>
+    Object.fromEntries(
+      Object.entries(entry).filter(
+        ([field, value]) =>
+          value !== undefined &&
+          value !== "" &&
+          !KEPT_FIELDS.includes(field as keyof VaultEntry)
+      )
+    ) as Partial<VaultEntry>;
+
+  const updated = updateEntryData(
+    existing,
+    {
+      ...values(older),
+      ...values(newer),
+      tags: Array.from(new Set([...(newer.tags || []), ...(older.tags || [])])),
+      customFields,
+    },
+    settings
+  );
+  const replaced: PasswordHistoryEntry[] = imported.password
+    ? [{ value: imported.password, changedAt: updated.updatedAt }]
+    : [];
+
+  return {
+    ...addImportedHistory(
+      updated,
+      [...replaced, ...(imported.passwordHistory || [])],
+      settings
+    ),
+    createdAt:
+      imported.createdAt < existing.createdAt
+        ? imported.createdAt
+        : existing.createdAt,
+  };
+};
+
+/**
+ * Adds imported entries to existing ones, applying a strategy to likely
+ * duplicates (same id, same URL host and username, or same title and
+ * username)
+ * Entries added earlier in the same batch count as existing ones, so an
+ * entry repeated within the imported file is a duplicate too. Entries in
+ * the trash are not matched; an imported entry reusing the id of one gets a
+ * new id.
+ * - skip: the imported entry is dropped
+ * - overwrite: the imported entry replaces the existing one (keeping its id,
+ * creation date and history, where the replaced password is recorded)
+ * - keepBoth: the imported entry is added alongside (with a new id if ids
+ * collide)
+ * - merge: both are combined with mergeEntries
+ * @param existing - Entries already in the vault
+ * @param candidates - Valid imported entries
+ * @param strategy - Strategy applied to duplicates
+ * @param settings - Vault security settings holding the history limits
+ * (defaults when missing)
+ * @returns Resulting entries, imported count and duplicate report
+ */
+export const resolveDuplicates = (
+  existing: VaultEntry[],
+  candidates: ImportCandidate[],
+  strategy: DuplicateStrategy,
+  settings: Partial<SecuritySettings> = {}
+): {
+  entries: VaultEntry[];
+  importedCount: number;
+  duplicates: ImportDuplicate[];
+} => {
+  const entries = [...existing];
+  const index = new Map<string, number>();
+  const duplicates: ImportDuplicate[] = [];
+  let importedCount = 0;
+
+  const register = (entry: VaultEntry, position: number) => {
+    for (const [, key] of duplicateKeys(entry)) {
+      if (!index.has(key)) {
+        index.set(key, position);
+      }
+    }
+  };
+
+  const trashedIds = new Set(existing.filter(isInTrash).map(({ id }) => id));
+  const add = (entry: VaultEntry): string => {
+    const added = trashedIds.has(entry.id)
+      ? { ...entry, id: generateId() }
+      : entry;
+    register(added, entries.push(added) - 1);
+    importedCount++;
+    return added.id;
+  };
+
+  entries.forEach((entry, position) => {
+    if (!isInTrash(entry)) {
+      register(entry, position);
+    }
+  });
+
+  for (const { entry, line } of candidates) {
+    const match = duplicateKeys(entry).find(([, key]) => index.has(key));
+
+    if (!match) {
+      add(entry);
+      continue;
+    }
+
+    const position = index.get(match[1]) as number;
+    const current = entries[position];
+    let importedId = current.id;
+
+    switch (strategy) {
+      case "skip":
+        importedId = entry.id;
+        break;
+      case "overwrite":
+        entries[position] = overwriteEntry(current, entry, settings);
+        importedCount++;
+        break;
+      case "merge":
+        entries[position] = mergeEntries(current, entry, settings);
+        importedCount++;
+        break;
+      default:
+        importedId = add(
+          match[0] === "id" ? { ...entry, id: generateId() } : entry
+        );
+    }
+
+    duplicates.push({
+      existingId: current.id,
+      importedId,
+      title: entry.title,
+      match: match[0],
+      action: strategy,
+      line,
+    });
+  }
+
+  return { entries, importedCount, duplicates };
+};
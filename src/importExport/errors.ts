@@ -0,0 +1,21 @@
+import { SafeKeysError } from "../utils/errors";
+
+export type ImportExportErrorCode =
+  | "UNSUPPORTED_EXPORT_FORMAT"
+  | "ENCRYPTION_NOT_SUPPORTED"
+  | "PASSWORD_REQUIRED"
+  | "INVALID_IMPORT_DATA"
+  | "UNSUPPORTED_IMPORT_FORMAT";
+
+/**
+ * Thrown when an export or import cannot be performed at all
+ * Problems with individual entries are reported in ImportResult.errors
+ * instead, so one bad entry does not abort a whole import.
+ */
+export class ImportExportError extends SafeKeysError {
+  declare readonly code: ImportExportErrorCode;
+
+  constructor(code: ImportExportErrorCode, message: string) {
+    super(code, message);
+  }
+}
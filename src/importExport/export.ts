@@ -0,0 +1,206 @@
+import {
+  CustomField,
+  ExportOptions,
+  FieldType,
+  Vault,
+  VaultEntry,
+} from "../types";
+import { sealVault } from "../crypto/seal";
+import { formatOtpAuthUri } from "../crypto/totp";
+import { serializeVault } from "../vault/serialization";
+import { isInTrash } from "../vault/trash";
+import { stringifyCsv } from "./csv";
+import { ImportExportError } from "./errors";
+
+/**
+ * Fixed CSV columns, in output order
+ */
+export const CSV_EXPORT_COLUMNS = [
+  "title",
+  "username",
+  "password",
+  "totp",
+  "url",
+  "notes",
+  "category",
+  "tags",
+  "favorite",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+/**
+ * Prefix of the CSV columns holding custom fields ("field:PIN")
+ */
+export const CSV_CUSTOM_FIELD_PREFIX = "field:";
+
+/**
+ * Separator used to flatten tags into a single CSV column
+ */
+export const CSV_TAG_SEPARATOR = ";";
+
+/**
+ * Whether a custom field holds a secret (blanked without includePasswords)
+ */
+const isSecretField = (field: CustomField): boolean => {
+  return field.hidden === true || field.type === FieldType.PASSWORD;
+};
+
+/**
+ * Removes the password, its history, the revisions (which contain secrets)
+ * and the TOTP secret and blanks secret custom fields of an entry
+ */
+const redactSecrets = (entry: VaultEntry): VaultEntry => {
+  const { password, passwordHistory, revisions, totp, ...rest } = entry;
+
+  return {
+    ...rest,
+    customFields: entry.customFields?.map((field) =>
+      isSecretField(field) ? { ...field, value: "" } : field
+    ),
+  };
+};
+
+/**
+ * Keeps the entries matching the export options, redacted unless
+ * `includePasswords` is set and without the trashed ones unless
+ * `includeTrashed` is set
+ */
+const filterEntries = (
+  entries: VaultEntry[],
+  options: ExportOptions
+): VaultEntry[] => {
+  const live = options.includeTrashed
+    ? entries
+    : entries.filter((entry) => !isInTrash(entry));
+  const selected = options.categories?.length
+    ? live.filter(
+        (entry) =>
+          entry.category && options.categories?.includes(entry.category)
+      )
+    : live;
+
+  return options.includePasswords ? selected : selected.map(redactSecrets);
+};
+
+/**
+ * Maps an entry's custom fields to their column names
+ * A name repeated within one entry gets a numbered column ("field:PIN (2)")
+ */
+const customFieldColumns = (entry: VaultEntry): Map<string, CustomField> => {
+  const columns = new Map<string, CustomField>();
+  const occurrences: Record<string, number> = {};
+
+  for (const field of entry.customFields || []) {
+    const count = (occurrences[field.name] || 0) + 1;
+    occurrences[field.name] = count;
+
+    const suffix = count > 1 ? ` (${count})` : "";
+    columns.set(`${CSV_CUSTOM_FIELD_PREFIX}${field.name}${suffix}`, field);
+  }
+
+  return columns;
+};
+
+/**
+ * Exports entries as RFC 4180 CSV
+ * One column per fixed entry property, then one per custom field name
+ */
+const exportCsv = (entries: VaultEntry[]): string => {
+  const fieldsByEntry = entries.map(customFieldColumns);
+  const customColumns = Array.from(
+    new Set(fieldsByEntry.flatMap((fields) => Array.from(fields.keys())))
+  );
+
+  const rows = entries.map((entry, index) => {
+    const fields = fieldsByEntry[index];
+    const base: Record<(typeof CSV_EXPORT_COLUMNS)[number], string> = {
+      title: entry.title,
+      username: entry.username || "",
+      password: entry.password || "",
+      totp: entry.totp ? formatOtpAuthUri(entry.totp) : "",
+      url: entry.url || "",
+      notes: entry.notes || "",
+      category: entry.category || "",
+      tags: (entry.tags || []).join(CSV_TAG_SEPARATOR),
+      favorite: entry.favorite ? "true" : "false",
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString(),
+    };
+
+    return [
+      ...CSV_EXPORT_COLUMNS.map((column) => base[column]),
+      ...customColumns.map((column) => fields.get(column)?.value || ""),
+    ];
+  });
+
+  return stringifyCsv([[...CSV_EXPORT_COLUMNS, ...customColumns], ...rows]);
+};
+
+/**
+ * Encrypts an export with sealVault
+ */
+const exportEncrypted = async (
+  vault: Vault,
+  password: string | undefined
+): Promise<string> => {
+  if (!password) {
+    throw new ImportExportError(
+      "PASSWORD_REQUIRED",
+      "A password is required to encrypt the export"
+    );
+  }
+  return JSON.stringify(await sealVault(vault, password));
+};
+
+/**
+ * Exports a vault in the requested format
+ * - csv: RFC 4180 CSV, never encrypted
+ * - json: the vault as JSON, sealed into an EncryptedVault when `encrypted`
+ * is set (readable back with importVault)
+ * - vault: always an EncryptedVault, like a .vault file
+ * Only entries in `options.categories` are exported when it is set, and
+ * trashed entries only with `includeTrashed` (CSV has no column for their
+ * deletion date, so they come back as live entries once imported). Without
+ * `includePasswords`, passwords, password histories, revisions and TOTP
+ * secrets are left out and secret custom fields (hidden or of password
+ * type) are blanked.
+ * @param vault - Vault to export
+ * @param options - Export options
+ * @param password - Password protecting encrypted exports
+ * @returns Promise<string> - Exported document
+ * @throws ImportExportError if the format or encryption is not supported,
+ * or the password of an encrypted export is missing
+ */
+export const exportVault = async (
+  vault: Vault,
+  options: ExportOptions,
+  password?: string
+): Promise<string> => {
+  const exported: Vault = {
+    ...vault,
+    entries: filterEntries(vault.entries, options),
+  };
+
+  switch (options.format) {
+    case "csv":
+      if (options.encrypted) {
+        throw new ImportExportError(
+          "ENCRYPTION_NOT_SUPPORTED",
+          "CSV exports cannot be encrypted"
+        );
+      }
+      return exportCsv(exported.entries);
+    case "json":
+      return options.encrypted
+        ? exportEncrypted(exported, password)
+        : serializeVault(exported);
+    case "vault":
+      return exportEncrypted(exported, password);
+    default:
+      throw new ImportExportError(
+        "UNSUPPORTED_EXPORT_FORMAT",
+        `Unsupported export format: ${options.format}`
+      );
+  }
+};
@@ -0,0 +1,103 @@
+import { openVault } from "../crypto/seal";
+import { EncryptedVault, ImportOptions, ImportResult, Vault } from "../types";
+import { upgradeVault } from "../vault/migrations";
+import { deserializeVault } from "../vault/serialization";
+import { ImportExportError } from "./errors";
+import { addImportedEntries, validateImportedEntries } from "./pipeline";
+
+/**
+ * Whether parsed JSON looks like an EncryptedVault
+ */
+const isEncryptedVault = (value: unknown): value is EncryptedVault => {
+  const candidate = value as Partial<EncryptedVault> | null;
+  return (
+    typeof candidate === "object" &&
+    candidate !== null &&
+    typeof candidate.data === "string" &&
+    typeof candidate.salt === "string" &&
+    typeof candidate.iv === "string"
+  );
+};
+
+/**
+ * Parses a JSON export into a vault, decrypting it if needed
+ */
+const readVault = async (
+  json: string,
+  options: ImportOptions
+): Promise<Vault> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ImportExportError(
+      "INVALID_IMPORT_DATA",
+      "Import data is not valid JSON"
+    );
+  }
+
+  if (isEncryptedVault(parsed)) {
+    if (!options.password) {
+      throw new ImportExportError(
+        "PASSWORD_REQUIRED",
+        "A password is required to import an encrypted export"
+      );
+    }
+    return openVault(parsed, options.password);
+  }
+
+  let vault: Vault;
+  try {
+    vault = deserializeVault(json);
+  } catch (error) {
+    throw new ImportExportError(
+      "INVALID_IMPORT_DATA",
+      error instanceof Error ? error.message : "Invalid vault data"
+    );
+  }
+
+  return upgradeVault(vault);
+};
+
+/**
+ * Imports a vault exported with exportVault in the json or vault format
+ * Every entry is validated again: invalid entries are skipped and reported
+ * in `errors`, the others are kept as is (ids, dates, custom fields and
+ * categories included) so an export/import round trip is lossless.
+ * When `options.vault` is given, the entries are added to that vault instead
+ * and duplicates are handled by `options.duplicates`.
+ * @param json - Plain or encrypted JSON export
+ * @param options - Import options (password of encrypted exports, target
+ * vault and duplicate strategy)
+ * @returns Promise<ImportResult> - Imported vault and per-entry report
+ * @throws ImportExportError if the data is not a vault export or the
+ * password of an encrypted export is missing
+ * @throws CryptoError if an encrypted export cannot be decrypted
+ */
+export const importVault = async (
+  json: string,
+  options: ImportOptions = {}
+): Promise<ImportResult> => {
+  const vault = await readVault(json, options);
+  const candidates = vault.entries.map((entry) => ({ entry }));
+
+  if (options.vault) {
+    return addImportedEntries(
+      options.vault,
+      candidates,
+      [],
+      0,
+      options.duplicates
+    );
+  }
+
+  const { valid, errors } = validateImportedEntries(candidates);
+
+  return {
+    vault: { ...vault, entries: valid.map((candidate) => candidate.entry) },
+    importedCount: valid.length,
+    skippedCount: errors.length,
+    errors,
+    duplicates: [],
+  };
+};
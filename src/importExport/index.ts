@@ -0,0 +1,15 @@
+// Export CSV helpers
+export * from "./csv";
+// Export vault exporters
+export * from "./export";
+// Export vault importers
+export * from "./import";
+// Export third-party importers
+export * from "./bitwarden";
+export * from "./keepass";
+export * from "./csvImport";
+export * from "./csvPresets";
+// Export duplicate handling
+export * from "./duplicates";
+// Export import/export errors
+export * from "./errors";
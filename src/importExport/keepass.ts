@@ -0,0 +1,343 @@
+import {
+  CustomField,
+  EntryCategory,
+  FieldType,
+  ImportError,
+  ImportOptions,
+  ImportResult,
+  OtpAlgorithm,
+  OtpParams,
+  VaultEntry,
+} from "../types";
+import { base64ToBytes } from "../utils/encoding";
+import { createCustomField } from "../vault/customFields";
+import { createEntry } from "../vault/entry";
+import { createVault } from "../vault/vault";
+import { ImportExportError } from "./errors";
+import {
+  addImportedEntries,
+  createTypedField,
+  ImportCandidate,
+  isValidUrl,
+  parseImportedOtp,
+} from "./pipeline";
+import { childElement, childElements, parseXml, XmlElement } from "./xml";
+
+/**
+ * String fields mapped to VaultEntry properties instead of custom fields
+ */
+const KEEPASS_STANDARD_FIELDS = [
+  "Title",
+  "UserName",
+  "Password",
+  "URL",
+  "Notes",
+];
+
+/**
+ * Authenticator strings: "otp" (KeePassXC otpauth:// URI) and the
+ * TimeOtp-* / HmacOtp-* settings of KeePass 2.47+
+ */
+const KEEPASS_OTP_FIELD = /^(otp|TimeOtp-.+|HmacOtp-.+)$/;
+
+/**
+ * Seconds between 0001-01-01 (KDBX 4 time origin) and the Unix epoch
+ */
+const KEEPASS_EPOCH_OFFSET = 62135596800;
+
+/**
+ * Parses a KeePass time: ISO 8601 in XML exports, base64 encoded
+ * little-endian seconds since 0001-01-01 in KDBX 4 databases
+ */
+const parseKeePassTime = (value: string | undefined): Date | undefined => {
+  const text = value?.trim();
+  if (!text) {
+    return undefined;
+  }
+
+  if (!/^\d{4}-/.test(text)) {
+    try {
+      const bytes = base64ToBytes(text);
+      if (bytes.length !== 8) {
+        return undefined;
+      }
+      const view = new DataView(bytes.buffer, bytes.byteOffset, 8);
+      const seconds =
+        view.getUint32(0, true) + view.getUint32(4, true) * 2 ** 32;
+      return new Date((seconds - KEEPASS_EPOCH_OFFSET) * 1000);
+    } catch {
+      return undefined;
+    }
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const isTrue = (value: string | undefined): boolean =>
+  value?.trim().toLowerCase() === "true";
+
+/**
+ * Context shared while walking the group tree
+ */
+interface KeePassWalk {
+  recycleBinUuid?: string;
+  candidates: ImportCandidate[];
+  report: ImportError[];
+  recycledCount: number;
+}
+
+/**
+ * Reads the authenticator of a KeePass entry from its OTP strings
+ * Only base32 secrets are supported (not the UTF-8, hex or base64 variants)
+ */
+const readKeePassOtp = (
+  strings: Record<string, string>
+): OtpParams | undefined => {
+  if (strings.otp) {
+    return parseImportedOtp(strings.otp);
+  }
+
+  const timeSecret = strings["TimeOtp-Secret-Base32"];
+  const hmacSecret = strings["HmacOtp-Secret-Base32"];
+  const params = parseImportedOtp(timeSecret || hmacSecret || "");
+  if (!params) {
+    return undefined;
+  }
+
+  if (!timeSecret) {
+    return {
+      ...params,
+      type: "hotp",
+      counter: Number(strings["HmacOtp-Counter"]) || 0,
+    };
+  }
+
+  // "HMAC-SHA-256" -> "SHA256"
+  const algorithm = (strings["TimeOtp-Algorithm"] || "HMAC-SHA-1")
+    .replace(/^HMAC-/, "")
+    .replace("-", "") as OtpAlgorithm;
+  const digits = Number(strings["TimeOtp-Length"]) || params.digits;
+  if (
+    !["SHA1", "SHA256", "SHA512"].includes(algorithm) ||
+    digits < 6 ||
+    digits > 8
+  ) {
+    return undefined;
+  }
+
+  return {
+    ...params,
+    algorithm,
+    digits,
+    period: Number(strings["TimeOtp-Period"]) || params.period,
+  };
+};
+
+/**
+ * Converts a KeePass entry into a vault entry
+ * Parts that cannot be represented are reported as warnings
+ */
+const convertEntry = (
+  element: XmlElement,
+  groupPath: string[],
+  warn: (message: string) => void
+): VaultEntry => {
+  const standard: Record<string, string> = {};
+  const otpStrings: Record<string, string> = {};
+  const customFields: CustomField[] = [];
+  const otpFields: CustomField[] = [];
+
+  for (const field of childElements(element, "String")) {
+    const key = childElement(field, "Key")?.text ?? "";
+    const valueElement = childElement(field, "Value");
+    const value = valueElement?.text ?? "";
+
+    // Protected values of a raw KDBX payload are encrypted with the inner
+    // stream cipher; XML exports store them in clear with ProtectInMemory
+    if (isTrue(valueElement?.attributes.Protected)) {
+      warn(`Encrypted field "${key}" could not be read`);
+      continue;
+    }
+
+    if (KEEPASS_STANDARD_FIELDS.includes(key)) {
+      standard[key] = value;
+      continue;
+    }
+
+    const customField = isTrue(valueElement?.attributes.ProtectInMemory)
+      ? createCustomField(key, value, FieldType.PASSWORD, true)
+      : createCustomField(
+          key,
+          value,
+          value.includes("\n") ? FieldType.TEXTAREA : FieldType.TEXT
+        );
+
+    if (KEEPASS_OTP_FIELD.test(key)) {
+      otpStrings[key] = value;
+      otpFields.push(customField);
+    } else {
+      customFields.push(customField);
+    }
+  }
+
+  const totp = readKeePassOtp(otpStrings);
+  if (!totp && otpFields.length > 0) {
+    warn("TOTP settings format is not supported, kept as custom fields");
+    customFields.push(...otpFields);
+  }
+
+  let url: string | undefined = standard.URL || undefined;
+  if (url && !isValidUrl(url)) {
+    customFields.unshift(createTypedField("URL", url, FieldType.URL));
+    url = undefined;
+  }
+
+  const attachments = childElements(element, "Binary").length;
+  if (attachments > 0) {
+    warn(`${attachments} attachment(s) were not imported`);
+  }
+
+  const tags = (childElement(element, "Tags")?.text || "")
+    .split(/[;,]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  if (groupPath.length > 0) {
+    tags.unshift(groupPath.join("/"));
+  }
+
+  const isNote = !standard.UserName && !standard.Password && !url;
+  const entry = createEntry({
+    title: (standard.Title || "").trim(),
+    username: standard.UserName || undefined,
+    password: standard.Password || undefined,
+    url,
+    notes: standard.Notes || undefined,
+    tags,
+    category:
+      isNote && standard.Notes
+        ? EntryCategory.SECURE_NOTE
+        : EntryCategory.LOGIN,
+    customFields,
+    totp,
+  });
+
+  const times = childElement(element, "Times");
+  const createdAt =
+    parseKeePassTime(times && childElement(times, "CreationTime")?.text) ||
+    entry.createdAt;
+  const updatedAt =
+    parseKeePassTime(
+      times && childElement(times, "LastModificationTime")?.text
+    ) || createdAt;
+
+  return { ...entry, createdAt, updatedAt };
+};
+
+/**
+ * Counts the entries of a group and its subgroups
+ */
+const countEntries = (group: XmlElement): number => {
+  return childElements(group, "Group").reduce(
+    (count, child) => count + countEntries(child),
+    childElements(group, "Entry").length
+  );
+};
+
+/**
+ * Converts the entries of a group, then walks its subgroups
+ * Entry history and the recycle bin are not imported
+ */
+const walkGroup = (
+  group: XmlElement,
+  groupPath: string[],
+  walk: KeePassWalk
+): void => {
+  const uuid = childElement(group, "UUID")?.text.trim();
+  if (walk.recycleBinUuid && uuid === walk.recycleBinUuid) {
+    walk.recycledCount += countEntries(group);
+    return;
+  }
+
+  for (const element of childElements(group, "Entry")) {
+    const title = childElements(element, "String").find(
+      (field) => childElement(field, "Key")?.text === "Title"
+    );
+    const label = title ? `"${childElement(title, "Value")?.text}"` : "Entry";
+    const data = { uuid: childElement(element, "UUID")?.text, groupPath };
+    const warn = (message: string) =>
+      walk.report.push({
+        message: `${label}: ${message}`,
+        severity: "warning",
+        data,
+      });
+
+    walk.candidates.push({ entry: convertEntry(element, groupPath, warn) });
+  }
+
+  for (const child of childElements(group, "Group")) {
+    const name = childElement(child, "Name")?.text.trim() || "Group";
+    walkGroup(child, [...groupPath, name], walk);
+  }
+};
+
+/**
+ * Imports a KeePass 2 XML export
+ * Groups become hierarchical tags ("Internet/Email", the root group being
+ * the database itself), Title/UserName/Password/URL/Notes map to the entry
+ * fields and other strings become custom fields (protected ones hidden,
+ * with the password type). Creation and modification times are preserved.
+ * Entry history and the recycle bin are not imported; attachments are
+ * reported as warnings.
+ * @param xml - Content of the KeePass XML export
+ * @param options - Import options (target vault, a new one by default, and
+ * duplicate strategy)
+ * @returns ImportResult - Updated vault and import report
+ * @throws ImportExportError if the file is not a KeePass XML export
+ */
+export const importKeePass = (
+  xml: string,
+  options: ImportOptions = {}
+): ImportResult => {
+  const document = parseXml(xml);
+  const root = childElement(document, "Root");
+  const topGroup = root && childElement(root, "Group");
+
+  if (document.name !== "KeePassFile" || !topGroup) {
+    throw new ImportExportError(
+      "INVALID_IMPORT_DATA",
+      "Invalid KeePass export: missing root group"
+    );
+  }
+
+  const meta = childElement(document, "Meta");
+  const recycleBinEnabled =
+    meta && isTrue(childElement(meta, "RecycleBinEnabled")?.text);
+  const walk: KeePassWalk = {
+    recycleBinUuid: recycleBinEnabled
+      ? childElement(meta, "RecycleBinUUID")?.text.trim()
+      : undefined,
+    candidates: [],
+    report: [],
+    recycledCount: 0,
+  };
+
+  walkGroup(topGroup, [], walk);
+
+  if (walk.recycledCount > 0) {
+    walk.report.push({
+      message: `${walk.recycledCount} entries in the recycle bin were not imported`,
+      severity: "warning",
+    });
+  }
+
+  const databaseName = meta && childElement(meta, "DatabaseName")?.text.trim();
+
+  return addImportedEntries(
+    options.vault || createVault({ name: databaseName || "KeePass" }),
+    walk.candidates,
+    walk.report,
+    0,
+    options.duplicates
+  );
+};
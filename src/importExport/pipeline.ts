@@ -0,0 +1,159 @@
+import {
+  CustomField,
+  DuplicateStrategy,
+  FieldType,
+  ImportError,
+  ImportResult,
+  OtpParams,
+  Vault,
+  VaultEntry,
+} from "../types";
+import { parseOtpSecret } from "../crypto/totp";
+import { validateCreateCustomField, validateVaultEntry } from "../validation";
+import { createCustomField } from "../vault/customFields";
+import { resolveDuplicates } from "./duplicates";
+
+/**
+ * Entry built by an importer, before validation
+ */
+export interface ImportCandidate {
+  entry: VaultEntry;
+  line?: number; // Ligne du fichier source (formats texte)
+}
+
+/**
+ * Creates a custom field, falling back to a text field when the value does
+ * not match the requested type (e.g. an invalid email address)
+ */
+export const createTypedField = (
+  name: string,
+  value: string,
+  type: FieldType,
+  hidden: boolean = false
+): CustomField => {
+  const field = createCustomField(name, value, type, hidden);
+  return validateCreateCustomField(field).isValid
+    ? field
+    : { ...field, type: FieldType.TEXT };
+};
+
+/**
+ * Reads an imported authenticator value (otpauth:// URI or base32 secret)
+ * Importers keep unsupported values (e.g. steam:// secrets) as hidden
+ * custom fields instead.
+ * @param value - TOTP value found in the source
+ * @returns OtpParams, or undefined if the value cannot be used
+ */
+export const parseImportedOtp = (value: string): OtpParams | undefined => {
+  try {
+    return parseOtpSecret(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Whether a string is an absolute URL accepted by the entry schema
+ */
+export const isValidUrl = (value: string): boolean => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Builds the import error reported for an invalid entry
+ */
+const invalidEntryError = (
+  { entry, line }: ImportCandidate,
+  index: number,
+  messages: { field: string; message: string }[]
+): ImportError => {
+  const label = entry?.title ? `"${entry.title}"` : `#${index + 1}`;
+
+  return {
+    line,
+    field: messages[0]?.field,
+    message: `Entry ${label}: ${messages
+      .map((error) => error.message)
+      .join("; ")}`,
+    severity: "error",
+    data: { id: entry?.id, title: entry?.title },
+  };
+};
+
+/**
+ * Validates imported entries with validateVaultEntry
+ * Invalid entries are dropped and reported, valid ones are kept as is.
+ * @param candidates - Entries built by an importer
+ * @returns Valid candidates and one error per invalid entry
+ */
+export const validateImportedEntries = (
+  candidates: ImportCandidate[]
+): { valid: ImportCandidate[]; errors: ImportError[] } => {
+  const valid: ImportCandidate[] = [];
+  const errors: ImportError[] = [];
+
+  candidates.forEach((candidate, index) => {
+    if (!candidate.entry || typeof candidate.entry !== "object") {
+      errors.push(
+        invalidEntryError(candidate, index, [
+          { field: "entry", message: "Entry must be an object" },
+        ])
+      );
+      return;
+    }
+
+    const validation = validateVaultEntry(candidate.entry);
+
+    if (validation.isValid) {
+      valid.push(candidate);
+    } else {
+      errors.push(invalidEntryError(candidate, index, validation.errors));
+    }
+  });
+
+  return { valid, errors };
+};
+
+/**
+ * Validates imported entries and adds the valid ones to a vault
+ * Likely duplicates of existing or already imported entries are handled by
+ * the strategy (see resolveDuplicates); skipped duplicates count as skipped
+ * entries.
+ * @param target - Vault receiving the entries
+ * @param candidates - Entries built by the importer
+ * @param report - Errors and warnings raised while reading the source
+ * @param rejectedCount - Source items the importer could not convert
+ * @param strategy - Strategy applied to duplicates (keepBoth by default)
+ * @returns ImportResult with the updated vault
+ */
+export const addImportedEntries = (
+  target: Vault,
+  candidates: ImportCandidate[],
+  report: ImportError[],
+  rejectedCount: number,
+  strategy: DuplicateStrategy = "keepBoth"
+): ImportResult => {
+  const { valid, errors } = validateImportedEntries(candidates);
+  const { entries, importedCount, duplicates } = resolveDuplicates(
+    target.entries,
+    valid,
+    strategy,
+    target.settings?.security
+  );
+
+  return {
+    vault:
+      importedCount > 0
+        ? { ...target, entries, updatedAt: new Date() }
+        : target,
+    importedCount,
+    skippedCount: rejectedCount + errors.length + valid.length - importedCount,
+    errors: [...report, ...errors],
+    duplicates,
+  };
+};
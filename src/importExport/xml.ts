@@ -0,0 +1,174 @@
+import { ImportExportError } from "./errors";
+
+/**
+ * Element of a parsed XML document
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Texte direct de l'élément (CDATA inclus)
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const invalidXml = (message: string) =>
+  new ImportExportError("INVALID_IMPORT_DATA", `Invalid XML: ${message}`);
+
+/**
+ * Whether a numeric character reference names a Unicode scalar value
+ */
+const isValidCodePoint = (code: number): boolean =>
+  code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+
+/**
+ * Replaces predefined and numeric character references
+ * @throws ImportExportError if a numeric reference is out of range
+ */
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, ref) => {
+    if (ref[0] === "#") {
+      const code =
+        ref[1] === "x" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1));
+      if (!isValidCodePoint(code)) {
+        throw invalidXml(`invalid character reference "${match}"`);
+      }
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[ref] ?? match;
+  });
+};
+
+/**
+ * Skips past a delimiter, failing if the document ends first
+ */
+const indexAfter = (xml: string, delimiter: string, from: number): number => {
+  const index = xml.indexOf(delimiter, from);
+  if (index === -1) {
+    throw invalidXml(`missing "${delimiter}"`);
+  }
+  return index + delimiter.length;
+};
+
+/**
+ * Parses an XML document into an element tree
+ * Supports elements, attributes, text, CDATA sections and character
+ * references; comments, processing instructions and the DOCTYPE are
+ * ignored. Namespaces and external entities are not interpreted.
+ * @param xml - XML document
+ * @returns XmlElement - Root element
+ * @throws ImportExportError if the document is not well-formed
+ */
+export const parseXml = (xml: string): XmlElement => {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let position = 0;
+
+  while (position < xml.length) {
+    const tagStart = xml.indexOf("<", position);
+    const textEnd = tagStart === -1 ? xml.length : tagStart;
+
+    if (textEnd > position && stack.length > 0) {
+      stack[stack.length - 1].text += decodeEntities(
+        xml.slice(position, textEnd)
+      );
+    }
+    if (tagStart === -1) {
+      break;
+    }
+
+    if (xml.startsWith("<!--", tagStart)) {
+      position = indexAfter(xml, "-->", tagStart);
+    } else if (xml.startsWith("<![CDATA[", tagStart)) {
+      const end = indexAfter(xml, "]]>", tagStart);
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += xml.slice(tagStart + 9, end - 3);
+      }
+      position = end;
+    } else if (xml.startsWith("<?", tagStart)) {
+      position = indexAfter(xml, "?>", tagStart);
+    } else if (xml.startsWith("<!", tagStart)) {
+      position = indexAfter(xml, ">", tagStart);
+    } else if (xml.startsWith("</", tagStart)) {
+      const end = indexAfter(xml, ">", tagStart);
+      const name = xml.slice(tagStart + 2, end - 1).trim();
+      const element = stack.pop();
+
+      if (!element || element.name !== name) {
+        throw invalidXml(`unexpected closing tag </${name}>`);
+      }
+      position = end;
+    } else {
+      const end = indexAfter(xml, ">", tagStart);
+      const selfClosing = xml[end - 2] === "/";
+      const content = xml.slice(tagStart + 1, selfClosing ? end - 2 : end - 1);
+      const name = content.match(/^[^\s/>]+/)?.[0];
+
+      if (!name) {
+        throw invalidXml("missing tag name");
+      }
+
+      const element: XmlElement = {
+        name,
+        attributes: {},
+        children: [],
+        text: "",
+      };
+      for (const match of content
+        .slice(name.length)
+        .matchAll(ATTRIBUTE_PATTERN)) {
+        element.attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        throw invalidXml("multiple root elements");
+      } else {
+        root = element;
+      }
+
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      position = end;
+    }
+  }
+
+  if (!root) {
+    throw invalidXml("no root element");
+  }
+  if (stack.length > 0) {
+    throw invalidXml(`unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+
+  return root;
+};
+
+/**
+ * Returns the direct children of an element with the given name
+ */
+export const childElements = (
+  element: XmlElement,
+  name: string
+): XmlElement[] => {
+  return element.children.filter((child) => child.name === name);
+};
+
+/**
+ * Returns the first direct child of an element with the given name
+ */
+export const childElement = (
+  element: XmlElement,
+  name: string
+): XmlElement | undefined => {
+  return element.children.find((child) => child.name === name);
+};
@@ -4,11 +4,21 @@ export * from "./crypto";
 // Vault exports
 export * from "./vault";
 
+// Import/export exports
+export * from "./importExport";
+
+// Storage exports
+export * from "./storage";
+
+// Generator exports
+export * from "./generator";
+
 // Types exports
 export * from "./types";
 
 // Utils exports
 export * from "./utils/id-generator";
+export * from "./utils/errors";
 
 // Validation exports
 export * from "./validation";
@@ -0,0 +1,285 @@
+import { CorruptedVaultError } from "../crypto/errors";
+import { verifyChecksum } from "../crypto/seal";
+import {
+  BackupOptions,
+  BackupRetentionPolicy,
+  DEFAULT_BACKUP_RETENTION,
+  EncryptedVault,
+  VaultBackup,
+  VaultStorage,
+} from "../types";
+import { bytesToHex } from "../utils/encoding";
+import { StorageError } from "./errors";
+import { assertStorageId } from "./shared";
+
+/**
+ * Separates the vault id from the date in a backup id
+ */
+const BACKUP_SEPARATOR = "--";
+
+/**
+ * Compact UTC date and random suffix of a backup id, e.g.
+ * 20240601T120000000Z-1a2b3c4d (the suffix keeps backups made in the same
+ * millisecond apart)
+ */
+const STAMP_PATTERN =
+  /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z-[0-9a-f]{8}$/;
+
+/**
+ * Longest vault id leaving room for the date and suffix within the 128
+ * characters of a storage id
+ */
+const MAX_BACKUP_VAULT_ID_LENGTH =
+  128 - "--20240601T120000000Z-1a2b3c4d".length;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Period a backup belongs to for each retention tier
+ * 1970-01-01 was a Thursday: shifting by 3 days starts weeks on Monday.
+ */
+const PERIODS: Record<keyof BackupRetentionPolicy, (date: Date) => string> = {
+  hourly: (date) => date.toISOString().slice(0, 13),
+  daily: (date) => date.toISOString().slice(0, 10),
+  weekly: (date) => String(Math.floor((date.getTime() / DAY_MS + 3) / 7)),
+  monthly: (date) => date.toISOString().slice(0, 7),
+};
+
+/**
+ * Builds the storage id of a backup
+ */
+const backupId = (vaultId: string, createdAt: Date): string => {
+  const stamp = createdAt.toISOString().replace(/[-:.]/g, "");
+  const suffix = bytesToHex(crypto.getRandomValues(new Uint8Array(4)));
+  return `${vaultId}${BACKUP_SEPARATOR}${stamp}-${suffix}`;
+};
+
+/**
+ * Checks that a vault id can be backed up
+ * @throws StorageError if the id is invalid or too long to name its backups
+ */
+const assertBackupVaultId = (vaultId: string): void => {
+  assertStorageId(vaultId);
+  if (vaultId.length > MAX_BACKUP_VAULT_ID_LENGTH) {
+    throw new StorageError(
+      "INVALID_STORAGE_ID",
+      `Vault storage id too long to be backed up (${MAX_BACKUP_VAULT_ID_LENGTH} characters at most): ${vaultId}`
+    );
+  }
+};
+
+/**
+ * Reads the date of a backup of a vault from its storage id
+ * @returns The backup date, or null if the id is not a backup of the vault
+ */
+const parseBackupDate = (vaultId: string, id: string): Date | null => {
+  const prefix = `${vaultId}${BACKUP_SEPARATOR}`;
+  const match = id.startsWith(prefix)
+    ? STAMP_PATTERN.exec(id.slice(prefix.length))
+    : null;
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, ms] = match;
+  return new Date(
+    `${year}-${month}-${day}T${hours}:${minutes}:${seconds}.${ms}Z`
+  );
+};
+
+/**
+ * Lists the backups of a vault without reading them, most recent first
+ */
+async function findBackups(
+  storage: VaultStorage,
+  vaultId: string
+): Promise<VaultBackup[]> {
+  const backups: VaultBackup[] = [];
+
+  for (const info of await storage.list()) {
+    const createdAt = parseBackupDate(vaultId, info.id);
+    if (createdAt) {
+      backups.push({
+        id: info.id,
+        vaultId,
+        createdAt,
+        revision: info.revision,
+        size: info.size,
+      });
+    }
+  }
+
+  return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Selects the backups a grandfather-father-son policy lets go
+ * For each tier, the most recent backup of each of the last `hourly` hours,
+ * `daily` days, `weekly` weeks and `monthly` months holding a backup is
+ * kept (UTC periods), along with the most recent backup overall. Backups of
+ * the same date keep their order, the first one winning.
+ * @param backups - Backups of a vault
+ * @param retention - Number of periods kept per tier (defaults for the
+ * missing ones)
+ * @returns VaultBackup[] - Expired backups, most recent first
+ */
+export function selectExpiredBackups(
+  backups: VaultBackup[],
+  retention: Partial<BackupRetentionPolicy> = {}
+): VaultBackup[] {
+  const policy = { ...DEFAULT_BACKUP_RETENTION, ...retention };
+  const sorted = [...backups].sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+  );
+  const kept = new Set(sorted.slice(0, 1).map((backup) => backup.id));
+
+  for (const tier of Object.keys(PERIODS) as (keyof BackupRetentionPolicy)[]) {
+    const periods = new Set<string>();
+    for (const backup of sorted) {
+      const period = PERIODS[tier](backup.createdAt);
+      if (periods.has(period)) {
+        continue;
+      }
+      if (periods.size >= policy[tier]) {
+        break;
+      }
+      periods.add(period);
+      kept.add(backup.id);
+    }
+  }
+
+  return sorted.filter((backup) => !kept.has(backup.id));
+}
+
+/**
+ * Stores a timestamped copy of an encrypted vault and deletes the backups
+ * the retention policy lets go
+ * The copy stays encrypted; use a different storage than the vault's own,
+ * or the backups show up next to the vaults in `list()`.
+ * @param storage - Storage holding the backups
+ * @param vaultId - Storage id of the vault
+ * @param encrypted - Encrypted vault to back up
+ * @param options - Backup date and retention policy
+ * @returns Promise<VaultBackup> - The new backup
+ * @throws StorageError if the vault id cannot name a stored vault or is
+ * longer than 98 characters
+ */
+export async function createBackup(
+  storage: VaultStorage,
+  vaultId: string,
+  encrypted: EncryptedVault,
+  options: BackupOptions = {}
+): Promise<VaultBackup> {
+  assertBackupVaultId(vaultId);
+  const createdAt = options.now ?? new Date();
+  const id = backupId(vaultId, createdAt);
+
+  const revision = await storage.save(id, encrypted);
+  // The new backup goes first so it wins over backups of the same date, and
+  // is never deleted even when dated before the kept ones
+  const backups = await findBackups(storage, vaultId);
+  const ordered = [
+    ...backups.filter((backup) => backup.id === id),
+    ...backups.filter((backup) => backup.id !== id),
+  ];
+  for (const expired of selectExpiredBackups(ordered, options.retention)) {
+    if (expired.id !== id) {
+      await storage.delete(expired.id);
+    }
+  }
+
+  return {
+    id,
+    vaultId,
+    createdAt,
+    revision,
+    size: new TextEncoder().encode(JSON.stringify(encrypted)).length,
+    ...(encrypted.metadata ? { metadata: encrypted.metadata } : {}),
+  };
+}
+
+/**
+ * Lists the backups of a vault, most recent first
+ * The metadata (name, entry count, checksum...) is read from the stored
+ * copies, which are not decrypted.
+ * @param storage - Storage holding the backups
+ * @param vaultId - Storage id of the vault
+ * @returns Promise<VaultBackup[]> - Backups of the vault
+ */
+export async function listBackups(
+  storage: VaultStorage,
+  vaultId: string
+): Promise<VaultBackup[]> {
+  const backups: VaultBackup[] = [];
+
+  for (const backup of await findBackups(storage, vaultId)) {
+    const stored = await storage.load(backup.id);
+    if (stored) {
+      backups.push(
+        stored.vault.metadata
+          ? { ...backup, metadata: stored.vault.metadata }
+          : backup
+      );
+    }
+  }
+
+  return backups;
+}
+
+/**
+ * Reads a backup back after checking it is intact
+ * Save the returned vault to restore it; legacy vaults without a checksum
+ * are returned without the check.
+ * @param storage - Storage holding the backups
+ * @param id - Id of the backup (VaultBackup.id)
+ * @returns Promise<EncryptedVault> - The backed up encrypted vault
+ * @throws StorageError if the backup does not exist
+ * @throws CorruptedVaultError if the backup does not match its checksum
+ */
+export async function restoreBackup(
+  storage: VaultStorage,
+  id: string
+): Promise<EncryptedVault> {
+  const separator = id.lastIndexOf(BACKUP_SEPARATOR);
+  const stored =
+    separator > 0 && parseBackupDate(id.slice(0, separator), id)
+      ? await storage.load(id)
+      : null;
+
+  if (!stored) {
+    throw new StorageError("BACKUP_NOT_FOUND", `Backup "${id}" not found`);
+  }
+  if (!(await verifyChecksum(stored.vault))) {
+    throw new CorruptedVaultError(
+      "Backup checksum mismatch: the backup may be corrupted"
+    );
+  }
+
+  return stored.vault;
+}
+
+/**
+ * Wraps a storage so every save also creates a backup
+ * Ids too long to be backed up are rejected before anything is saved.
+ * @param storage - Storage holding the vaults
+ * @param target - Storage holding the backups
+ * @param options - Retention policy of the backups
+ * @returns VaultStorage - The same storage, backing up each saved vault
+ */
+export function withAutomaticBackups(
+  storage: VaultStorage,
+  target: VaultStorage,
+  options: Omit<BackupOptions, "now"> = {}
+): VaultStorage {
+  return {
+    load: (id) => storage.load(id),
+    list: () => storage.list(),
+    delete: (id, deleteOptions) => storage.delete(id, deleteOptions),
+    async save(id, encrypted, saveOptions) {
+      assertBackupVaultId(id);
+      const revision = await storage.save(id, encrypted, saveOptions);
+      await createBackup(target, id, encrypted, options);
+      return revision;
+    },
+  };
+}
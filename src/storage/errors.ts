@@ -0,0 +1,44 @@
+import { SafeKeysError } from "../utils/errors";
+
+export type StorageErrorCode =
+  | "BACKUP_NOT_FOUND"
+  | "INVALID_STORAGE_ID"
+  | "INVALID_STORED_VAULT"
+  | "REVISION_CONFLICT";
+
+/**
+ * Thrown when a vault cannot be read from or written to a storage backend
+ * INVALID_STORAGE_ID flags an id that cannot name a stored vault,
+ * INVALID_STORED_VAULT a stored file that is not an encrypted vault and
+ * BACKUP_NOT_FOUND an unknown backup
+ */
+export class StorageError extends SafeKeysError {
+  declare readonly code: StorageErrorCode;
+
+  constructor(code: StorageErrorCode, message: string, cause?: unknown) {
+    super(code, message, cause);
+  }
+}
+
+/**
+ * Thrown when a vault was changed by another writer since it was read
+ * Load the vault again (and merge it with `mergeVaults`) before retrying.
+ */
+export class RevisionConflictError extends StorageError {
+  declare readonly code: "REVISION_CONFLICT";
+  readonly expectedRevision: string | null;
+  readonly actualRevision: string | null;
+
+  constructor(
+    id: string,
+    expectedRevision: string | null,
+    actualRevision: string | null
+  ) {
+    super(
+      "REVISION_CONFLICT",
+      `Vault "${id}" was changed since revision ${expectedRevision ?? "(none)"}`
+    );
+    this.expectedRevision = expectedRevision;
+    this.actualRevision = actualRevision;
+  }
+}
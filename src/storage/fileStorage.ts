@@ -0,0 +1,242 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  DEFAULT_STORAGE_BACKUPS,
+  FileStorageOptions,
+  StoredVaultInfo,
+  VaultStorage,
+} from "../types";
+import { generateId } from "../utils/id-generator";
+import {
+  assertRevision,
+  assertStorageId,
+  computeRevision,
+  isStorageId,
+  parseStoredVault,
+} from "./shared";
+
+/**
+ * Extension of the file holding a vault; backups add ".1", ".2"... to it
+ */
+const VAULT_EXTENSION = ".json";
+
+/**
+ * Whether a file system error means the file does not exist
+ */
+const isNotFound = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException)?.code === "ENOENT";
+
+/**
+ * Reads a text file, or null if it does not exist
+ */
+const readIfExists = async (file: string): Promise<string | null> => {
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Renames a file if it exists
+ */
+const renameIfExists = async (from: string, to: string): Promise<void> => {
+  try {
+    await fs.rename(from, to);
+  } catch (error) {
+    if (!isNotFound(error)) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Flushes a directory so the renames made in it survive a crash
+ * Not every platform can open a directory, in which case this does nothing.
+ */
+const syncDirectory = async (directory: string): Promise<void> => {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(directory, "r");
+    await handle.sync();
+  } catch {
+    // Best effort
+  } finally {
+    await handle?.close();
+  }
+};
+
+/**
+ * Writes a file atomically: the content goes to a temporary file, flushed
+ * to disk, which then replaces the target in a single rename
+ */
+const writeAtomic = async (target: string, content: string): Promise<void> => {
+  const temp = `${target}.${generateId()}.tmp`;
+
+  try {
+    const handle = await fs.open(temp, "w", 0o600);
+    try {
+      await handle.writeFile(content, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(temp, target);
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    throw error;
+  }
+
+  await syncDirectory(path.dirname(target));
+};
+
+/**
+ * Creates a vault storage writing one JSON file per vault in a directory
+ * Each save replaces the file atomically (temporary file, fsync, rename)
+ * and keeps the replaced versions as rolling backups (`<id>.json.1` is the
+ * most recent). Saves to the same vault are run one after the other; the
+ * revision check also catches writes from other processes, except those
+ * landing between the check and the rename.
+ * Node.js only: import it from "safekeys-core/dist/storage/fileStorage".
+ * @param directory - Directory holding the vaults (created on first save)
+ * @param options - Storage options
+ * @returns VaultStorage - File system storage
+ */
+export function createFileVaultStorage(
+  directory: string,
+  options: FileStorageOptions = {}
+): VaultStorage {
+  const backups = Math.max(
+    Math.floor(options.backups ?? DEFAULT_STORAGE_BACKUPS),
+    0
+  );
+  const queues = new Map<string, Promise<unknown>>();
+
+  const vaultFile = (id: string) =>
+    path.join(directory, `${id}${VAULT_EXTENSION}`);
+  const backupFile = (id: string, index: number) => `${vaultFile(id)}.${index}`;
+
+  // Runs the writes to a vault one after the other
+  const exclusive = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+    const run = (queues.get(id) ?? Promise.resolve()).then(task, task);
+    const settled = run.catch(() => undefined);
+    queues.set(id, settled);
+    settled.then(() => {
+      if (queues.get(id) === settled) {
+        queues.delete(id);
+      }
+    });
+    return run;
+  };
+
+  // Shifts the backups and copies the current version as the first one
+  const rotateBackups = async (id: string) => {
+    if (backups === 0) {
+      return;
+    }
+    await fs.rm(backupFile(id, backups), { force: true });
+    for (let index = backups - 1; index >= 1; index--) {
+      await renameIfExists(backupFile(id, index), backupFile(id, index + 1));
+    }
+    await fs.copyFile(vaultFile(id), backupFile(id, 1));
+  };
+
+  return {
+    async load(id) {
+      assertStorageId(id);
+      const content = await readIfExists(vaultFile(id));
+      if (content === null) {
+        return null;
+      }
+
+      return {
+        id,
+        vault: parseStoredVault(id, content),
+        revision: await computeRevision(content),
+      };
+    },
+
+    async save(id, vault, saveOptions = {}) {
+      assertStorageId(id);
+
+      return exclusive(id, async () => {
+        const current = await readIfExists(vaultFile(id));
+        assertRevision(
+          id,
+          saveOptions.expectedRevision,
+          current === null ? null : await computeRevision(current)
+        );
+
+        const content = JSON.stringify(vault);
+        if (content !== current) {
+          await fs.mkdir(directory, { recursive: true });
+          if (current !== null) {
+            await rotateBackups(id);
+          }
+          await writeAtomic(vaultFile(id), content);
+        }
+        return computeRevision(content);
+      });
+    },
+
+    async list() {
+      let names: string[];
+      try {
+        names = await fs.readdir(directory);
+      } catch (error) {
+        if (isNotFound(error)) {
+          return [];
+        }
+        throw error;
+      }
+
+      const infos: StoredVaultInfo[] = [];
+      for (const name of names.sort()) {
+        // Files whose name is not a valid id are not vaults of this storage
+        const id = name.slice(0, -VAULT_EXTENSION.length);
+        if (!name.endsWith(VAULT_EXTENSION) || !isStorageId(id)) {
+          continue;
+        }
+
+        const content = await readIfExists(path.join(directory, name));
+        if (content === null) {
+          continue; // Deleted meanwhile
+        }
+        const stats = await fs.stat(path.join(directory, name));
+        infos.push({
+          id,
+          revision: await computeRevision(content),
+          size: Buffer.byteLength(content, "utf8"),
+          updatedAt: stats.mtime,
+        });
+      }
+      return infos;
+    },
+
+    async delete(id, deleteOptions = {}) {
+      assertStorageId(id);
+
+      return exclusive(id, async () => {
+        const current = await readIfExists(vaultFile(id));
+        assertRevision(
+          id,
+          deleteOptions.expectedRevision,
+          current === null ? null : await computeRevision(current)
+        );
+        if (current === null) {
+          return false;
+        }
+
+        await fs.rm(vaultFile(id), { force: true });
+        for (let index = 1; index <= backups; index++) {
+          await fs.rm(backupFile(id, index), { force: true });
+        }
+        await syncDirectory(directory);
+        return true;
+      });
+    },
+  };
+}
@@ -0,0 +1,7 @@
+// Export backup functions
+export * from "./backups";
+// Export storage errors
+export * from "./errors";
+// Export in-memory storage (the file system storage is Node.js only and
+// imported from "./fileStorage" directly)
+export * from "./memoryStorage";
@@ -0,0 +1,72 @@
+import { StoredVaultInfo, VaultStorage } from "../types";
+import {
+  assertRevision,
+  assertStorageId,
+  computeRevision,
+  parseStoredVault,
+} from "./shared";
+
+/**
+ * Creates a vault storage kept in memory, for tests and ephemeral clients
+ * Vaults are stored serialized, so later changes to a saved object do not
+ * leak into the storage.
+ * @returns VaultStorage - Empty in-memory storage
+ */
+export function createMemoryVaultStorage(): VaultStorage {
+  const files = new Map<
+    string,
+    { content: string; revision: string; updatedAt: Date }
+  >();
+
+  return {
+    async load(id) {
+      assertStorageId(id);
+      const file = files.get(id);
+      return file
+        ? {
+            id,
+            vault: parseStoredVault(id, file.content),
+            revision: file.revision,
+          }
+        : null;
+    },
+
+    async save(id, vault, options = {}) {
+      assertStorageId(id);
+      const content = JSON.stringify(vault);
+      const revision = await computeRevision(content);
+
+      // Checked and written synchronously, so concurrent saves cannot interleave
+      assertRevision(
+        id,
+        options.expectedRevision,
+        files.get(id)?.revision ?? null
+      );
+      files.set(id, { content, revision, updatedAt: new Date() });
+      return revision;
+    },
+
+    async list() {
+      return [...files.entries()]
+        .map(
+          ([id, file]): StoredVaultInfo => ({
+            id,
+            revision: file.revision,
+            size: new TextEncoder().encode(file.content).length,
+            updatedAt: file.updatedAt,
+          })
+        )
+        .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    },
+
+    async delete(id, options = {}) {
+      assertStorageId(id);
+      assertRevision(
+        id,
+        options.expectedRevision,
+        files.get(id)?.revision ?? null
+      );
+      return files.delete(id);
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { computeChecksum } from "../crypto/seal";
+import { EncryptedVault } from "../types";
+import { RevisionConflictError, StorageError } from "./errors";
+
+/**
+ * Ids name files, so they are limited to characters safe on every platform
+ */
+const STORAGE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+
+/**
+ * Whether an id can name a stored vault
+ * @param id - Storage id of the vault
+ * @returns boolean - True for 1 to 128 letters, digits, "-" and "_" (not
+ * starting with "-" or "_")
+ */
+export function isStorageId(id: string): boolean {
+  return STORAGE_ID_PATTERN.test(id);
+}
+
+/**
+ * Checks that an id can name a stored vault
+ * @param id - Storage id of the vault
+ * @throws StorageError if the id contains other characters than letters,
+ * digits, "-" and "_"
+ */
+export function assertStorageId(id: string): void {
+  if (!isStorageId(id)) {
+    throw new StorageError(
+      "INVALID_STORAGE_ID",
+      `Invalid vault storage id: ${JSON.stringify(id)}`
+    );
+  }
+}
+
+/**
+ * Computes the revision token of a stored vault from its content
+ * @param content - Serialized encrypted vault
+ * @returns Promise<string> - Hex encoded SHA-256 digest
+ */
+export function computeRevision(content: string): Promise<string> {
+  return computeChecksum(content);
+}
+
+/**
+ * Checks the revision a writer expects against the stored one
+ * @param id - Storage id of the vault
+ * @param expected - Revision the writer read (null: no vault, undefined:
+ * no check)
+ * @param actual - Stored revision (null if the vault does not exist)
+ * @throws RevisionConflictError if the revisions differ
+ */
+export function assertRevision(
+  id: string,
+  expected: string | null | undefined,
+  actual: string | null
+): void {
+  if (expected !== undefined && expected !== actual) {
+    throw new RevisionConflictError(id, expected, actual);
+  }
+}
+
+/**
+ * Parses a stored encrypted vault
+ * @param id - Storage id of the vault
+ * @param content - Serialized encrypted vault
+ * @returns EncryptedVault
+ * @throws StorageError if the content is not an encrypted vault
+ */
+export function parseStoredVault(id: string, content: string): EncryptedVault {
+  let parsed: Partial<EncryptedVault> | null;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new StorageError(
+      "INVALID_STORED_VAULT",
+      `Stored vault "${id}" is not valid JSON`,
+      error
+    );
+  }
+
+  if (
+    !parsed ||
+    typeof parsed.data !== "string" ||
+    typeof parsed.iv !== "string" ||
+    typeof parsed.salt !== "string" ||
+    typeof parsed.version !== "string"
+  ) {
+    throw new StorageError(
+      "INVALID_STORED_VAULT",
+      `Stored vault "${id}" is not an encrypted vault`
+    );
+  }
+
+  return parsed as EncryptedVault;
+}
@@ -0,0 +1,51 @@
+import { Vault } from "./vaultTypes";
+
+export type KdfAlgorithm = "pbkdf2-sha256" | "pbkdf2-sha512" | "argon2id";
+
+export interface Pbkdf2KdfParams {
+  algorithm: "pbkdf2-sha256" | "pbkdf2-sha512";
+  iterations: number;
+}
+
+export interface Argon2idKdfParams {
+  algorithm: "argon2id";
+  iterations: number; // nombre de passes
+  memory: number; // en KiB
+  parallelism: number;
+}
+
+export type KdfParams = Pbkdf2KdfParams | Argon2idKdfParams;
+
+export interface WrappedKey {
+  data: string; // Clé de données chiffrée (JWK sérialisé)
+  iv: string;
+}
+
+export interface SealOptions {
+  kdf?: KdfParams;
+  vaultKey?: CryptoKey; // Réutilise une clé de données existante
+}
+
+export type KeySlotType = "recovery";
+
+export interface KeySlot {
+  id: string;
+  type: KeySlotType;
+  salt: string;
+  kdf: KdfParams;
+  wrappedKey: WrappedKey;
+  createdAt: string;
+}
+
+export interface EmergencyKit {
+  vaultName: string;
+  vaultId: string;
+  vaultCreatedAt: string;
+  recoveryCode: string;
+  generatedAt: string;
+}
+
+export interface UnlockedVault {
+  vault: Vault;
+  vaultKey: CryptoKey;
+}
@@ -1,5 +1,6 @@
 import { EntryCategory } from "./categoryTypes";
 import { FieldType } from "./fieldTypes";
+import { OtpParams } from "./otpTypes";
 
 export interface VaultEntry {
   id: string;
@@ -14,6 +15,15 @@ export interface VaultEntry {
   favorite?: boolean;
   category?: EntryCategory;
   customFields?: CustomField[];
+  totp?: OtpParams; // Authentificateur à deux facteurs
+  passwordHistory?: PasswordHistoryEntry[]; // Du plus récent au plus ancien
+  revisions?: EntryRevision[]; // Du plus récent au plus ancien
+  deletedAt?: Date; // Présent si l'entrée est dans la corbeille
+}
+
+export interface PasswordHistoryEntry {
+  value: string; // Ancien mot de passe
+  changedAt: Date; // Date à laquelle il a été remplacé
 }
 
 export interface CustomField {
@@ -24,6 +34,32 @@ export interface CustomField {
   hidden?: boolean;
 }
 
+// État d'une entrée conservé par une révision
+// Sans mot de passe : les anciens mots de passe restent dans passwordHistory
+export type EntrySnapshot = Omit<
+  VaultEntry,
+  "password" | "passwordHistory" | "revisions"
+>;
+
+export interface EntryRevision {
+  id: string;
+  changedAt: Date; // Date de la modification
+  entry: EntrySnapshot; // État de l'entrée avant la modification
+}
+
+// Modification d'un champ : "title", "tags", "customFields.PIN"...
+export interface EntryFieldChange {
+  field: string;
+  previous?: unknown; // Absent si le champ a été ajouté
+  current?: unknown; // Absent si le champ a été supprimé
+}
+
+export interface EntryHistoryItem {
+  revisionId: string;
+  changedAt: Date;
+  changes: EntryFieldChange[];
+}
+
 // Types utilitaires pour les entrées
 export type CreateVaultEntryData = Omit<
   VaultEntry,
@@ -0,0 +1,7 @@
+import { PasswordGeneratorMode } from "./vaultTypes";
+
+export interface GeneratedPassword {
+  value: string;
+  mode: PasswordGeneratorMode;
+  entropy: number; // en bits
+}
@@ -1,4 +1,5 @@
 import { EntryCategory } from "./categoryTypes";
+import { FieldType } from "./fieldTypes";
 import { Vault } from "./vaultTypes";
 
 export interface ImportResult {
@@ -6,18 +7,79 @@ export interface ImportResult {
   importedCount: number;
   skippedCount: number;
   errors: ImportError[];
+  duplicates?: ImportDuplicate[]; // Collisions détectées (absent : aucune)
 }
 
+// Stratégie appliquée aux doublons lors d'un import dans un vault existant
+export type DuplicateStrategy = "skip" | "overwrite" | "keepBoth" | "merge";
+
+// Critère ayant détecté le doublon
+export type DuplicateMatch = "id" | "url" | "title";
+
+export interface ImportDuplicate {
+  existingId: string; // Entrée en collision (existante ou importée plus tôt)
+  importedId: string; // Id final de l'entrée importée (existingId si fusionnée)
+  title: string;
+  match: DuplicateMatch;
+  action: DuplicateStrategy;
+  line?: number;
+}
+
+export type ImportErrorSeverity = "error" | "warning";
+
 export interface ImportError {
   line?: number;
   field?: string;
   message: string;
+  severity?: ImportErrorSeverity; // "error" par défaut : élément ignoré
   data?: any;
 }
 
+export interface ImportOptions {
+  password?: string; // Requis pour importer un export chiffré
+  vault?: Vault; // Vault cible (nouveau vault, ou le vault exporté, sinon)
+  duplicates?: DuplicateStrategy; // "keepBoth" par défaut
+}
+
 export interface ExportOptions {
   format: "json" | "csv" | "vault";
   includePasswords: boolean;
   categories?: EntryCategory[];
   encrypted?: boolean;
+  includeTrashed?: boolean; // Exporte aussi les entrées de la corbeille
 }
+
+// Champs de VaultEntry alimentables par une colonne CSV
+export type CsvEntryField =
+  | "title"
+  | "username"
+  | "password"
+  | "totp" // URI otpauth:// ou secret base32
+  | "url"
+  | "notes"
+  | "tags"
+  | "category"
+  | "favorite"
+  | "createdAt"
+  | "updatedAt";
+
+export interface CsvCustomFieldTarget {
+  customField: string; // Nom du champ personnalisé créé
+  type?: FieldType; // TEXT par défaut
+  hidden?: boolean;
+}
+
+export type CsvColumnTarget = CsvEntryField | CsvCustomFieldTarget | "ignore";
+
+export interface CsvMapping {
+  columns: Record<string, CsvColumnTarget>; // Clé : en-tête (insensible à la casse)
+  tagSeparator?: string; // ";" par défaut
+}
+
+export type CsvPreset =
+  | "chrome"
+  | "edge"
+  | "firefox"
+  | "1password"
+  | "lastpass"
+  | "safekeys";
@@ -4,6 +4,9 @@ export * from "./categoryTypes";
 // Exportation des types de champs
 export * from "./fieldTypes";
 
+// Exportation des types d'authentificateurs (TOTP/HOTP)
+export * from "./otpTypes";
+
 // Exportation des types d'entrées
 export * from "./entryTypes";
 
@@ -16,8 +19,26 @@ export * from "./searchTypes";
 // Exportation des types de statistiques
 export * from "./statsTypes";
 
+// Exportation des types de session d'édition
+export * from "./sessionTypes";
+
+// Exportation des types d'opérations
+export * from "./operationTypes";
+
+// Exportation des types de fusion
+export * from "./mergeTypes";
+
 // Exportation des types d'import/export
 export * from "./importExportTypes";
 
+// Exportation des types de stockage
+export * from "./storageTypes";
+
 // Exportation des types de validation
 export * from "./validationTypes";
+
+// Exportation des types du générateur
+export * from "./generatorTypes";
+
+// Exportation des types cryptographiques
+export * from "./cryptoTypes";
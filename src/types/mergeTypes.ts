@@ -0,0 +1,22 @@
+import { Vault } from "./vaultTypes";
+
+export type MergeSide = "local" | "remote";
+
+// "edit" : les deux côtés ont modifié le même champ différemment
+// "deleteEdit" : un côté a supprimé l'entrée, l'autre l'a modifiée
+export type MergeConflictType = "edit" | "deleteEdit";
+
+export interface MergeConflict {
+  type: MergeConflictType;
+  entryId?: string; // Absent pour les propriétés du vault (nom, description, réglages)
+  field?: string; // Champ en conflit ("customFields.<nom>" pour un champ personnalisé), absent pour "deleteEdit"
+  base?: unknown; // Valeur (ou entrée) de l'ancêtre commun
+  local?: unknown; // Absent si l'entrée a été supprimée localement
+  remote?: unknown; // Absent si l'entrée a été supprimée à distance
+  resolution: MergeSide; // Côté retenu dans le vault fusionné
+}
+
+export interface VaultMergeResult {
+  vault: Vault;
+  conflicts: MergeConflict[]; // Propriétés du vault, puis dans l'ordre des entrées fusionnées
+}
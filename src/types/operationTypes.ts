@@ -0,0 +1,51 @@
+import { CustomField, VaultEntry } from "./entryTypes";
+import { SecuritySettings } from "./vaultTypes";
+
+// Modification d'une propriété d'entrée (côté absent : propriété non définie)
+export interface EntryPatch {
+  field: keyof VaultEntry;
+  previous?: unknown;
+  current?: unknown;
+}
+
+export interface EntryAddedOperation {
+  type: "entryAdded";
+  entry: VaultEntry;
+}
+
+export interface EntryUpdatedOperation {
+  type: "entryUpdated";
+  entryId: string;
+  changes: EntryPatch[];
+  undo?: boolean; // Annule une modification : retire l'historique qu'elle a ajouté
+}
+
+export interface EntryDeletedOperation {
+  type: "entryDeleted";
+  entry: VaultEntry; // État de l'entrée avant la suppression
+  deletedAt?: Date; // Mise à la corbeille ; absent pour une suppression définitive
+}
+
+export interface CustomFieldChangedOperation {
+  type: "customFieldChanged";
+  entryId: string;
+  fieldId: string;
+  previous?: CustomField; // Absent pour un champ ajouté
+  current?: CustomField; // Absent pour un champ supprimé
+  changes: EntryPatch[]; // Autres propriétés modifiées (date de modification)
+  undo?: boolean; // Annule une modification : retire l'historique qu'elle a ajouté
+}
+
+export type VaultOperation =
+  | EntryAddedOperation
+  | EntryUpdatedOperation
+  | EntryDeletedOperation
+  | CustomFieldChangedOperation;
+
+export interface VaultMutationOptions {
+  onOperation?: (operation: VaultOperation) => void; // Appelé pour chaque opération produite
+}
+
+export interface CustomFieldMutationOptions extends VaultMutationOptions {
+  settings?: Partial<SecuritySettings>; // Limites de révisions du vault (défauts si absent)
+}
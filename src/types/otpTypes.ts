@@ -0,0 +1,20 @@
+export type OtpType = "totp" | "hotp";
+
+export type OtpAlgorithm = "SHA1" | "SHA256" | "SHA512";
+
+// Paramètres d'un authentificateur à usage unique (RFC 6238 / RFC 4226)
+export interface OtpParams {
+  type: OtpType;
+  secret: string; // Secret en base32 (RFC 4648, majuscules, sans padding)
+  algorithm: OtpAlgorithm; // SHA1 par défaut
+  digits: number; // 6 par défaut
+  period: number; // Durée de validité d'un code TOTP, en secondes (30 par défaut)
+  counter?: number; // Compteur HOTP
+  issuer?: string; // Service émetteur (ex. "GitHub")
+  label?: string; // Compte associé (ex. "jean@exemple.fr")
+}
+
+export interface TotpCode {
+  code: string;
+  secondsRemaining: number; // Avant le changement de code
+}
@@ -8,6 +8,7 @@ export interface VaultSearchOptions {
   favorites?: boolean;
   caseSensitive?: boolean;
   exactMatch?: boolean;
+  includeTrashed?: boolean; // Inclut les entrées de la corbeille
 }
 
 export interface VaultSearchResult {
@@ -0,0 +1,25 @@
+import config from "../../config.json";
+import { Vault } from "./vaultTypes";
+
+export interface VaultSessionOptions {
+  maxSteps?: number; // Étapes d'annulation conservées (DEFAULT_SESSION_MAX_STEPS par défaut)
+  maxBytes?: number; // Mémoire estimée des états conservés (DEFAULT_SESSION_MAX_BYTES par défaut)
+}
+
+// Résultat d'une mutation : un vault, ou un objet qui le contient (ex. addEntry)
+export type VaultMutationResult = Vault | { vault: Vault };
+
+export interface VaultSession {
+  readonly vault: Vault; // État courant
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  apply<T extends VaultMutationResult>(mutation: (vault: Vault) => T): T;
+  group<T>(run: () => T): T; // Les mutations appliquées pendant run forment une seule étape
+  undo(): Vault;
+  redo(): Vault;
+  clear(): void; // Oublie l'historique (à appeler au verrouillage)
+}
+
+// Constantes importées depuis config.json
+export const DEFAULT_SESSION_MAX_STEPS = config.SESSION_MAX_STEPS;
+export const DEFAULT_SESSION_MAX_BYTES = config.SESSION_MAX_BYTES;
@@ -8,4 +8,9 @@ export interface VaultStats {
   weakPasswords: number;
   duplicatePasswords: number;
   oldPasswords: number;
+  trashedEntries: number; // Entrées dans la corbeille
+}
+
+export interface VaultStatsOptions {
+  includeTrashed?: boolean; // Compte aussi les entrées de la corbeille
 }
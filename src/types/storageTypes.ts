@@ -0,0 +1,63 @@
+import config from "../../config.json";
+import { EncryptedVault, VaultMetadata } from "./vaultTypes";
+
+// Vault chiffré lu depuis un stockage
+export interface StoredVault {
+  id: string;
+  vault: EncryptedVault;
+  revision: string; // Jeton à renvoyer à save / delete pour détecter une écriture concurrente
+}
+
+export interface StoredVaultInfo {
+  id: string;
+  revision: string;
+  size: number; // Taille du vault sérialisé, en octets
+  updatedAt: Date; // Dernière écriture
+}
+
+export interface StorageWriteOptions {
+  expectedRevision?: string | null; // Révision lue (null : le vault ne doit pas exister, absent : pas de contrôle)
+}
+
+export interface VaultStorage {
+  load(id: string): Promise<StoredVault | null>; // null si le vault n'existe pas
+  save(
+    id: string,
+    vault: EncryptedVault,
+    options?: StorageWriteOptions
+  ): Promise<string>; // Nouvelle révision
+  list(): Promise<StoredVaultInfo[]>; // Triés par identifiant
+  delete(id: string, options?: StorageWriteOptions): Promise<boolean>; // false si le vault n'existait pas
+}
+
+export interface FileStorageOptions {
+  backups?: number; // Versions précédentes conservées par vault (DEFAULT_STORAGE_BACKUPS par défaut)
+}
+
+// Rétention grand-père / père / fils : nombre de périodes récentes dont la
+// dernière sauvegarde est conservée
+export interface BackupRetentionPolicy {
+  hourly: number;
+  daily: number;
+  weekly: number; // Semaines commençant le lundi (UTC)
+  monthly: number;
+}
+
+export interface BackupOptions {
+  retention?: Partial<BackupRetentionPolicy>; // DEFAULT_BACKUP_RETENTION par défaut
+  now?: Date; // Date de la sauvegarde (maintenant par défaut)
+}
+
+export interface VaultBackup {
+  id: string; // Identifiant de la sauvegarde dans le stockage
+  vaultId: string;
+  createdAt: Date;
+  revision: string;
+  size: number; // Taille du vault sérialisé, en octets
+  metadata?: VaultMetadata; // Lu sans déchiffrer le vault
+}
+
+// Constantes importées depuis config.json
+export const DEFAULT_STORAGE_BACKUPS = config.STORAGE_BACKUPS;
+export const DEFAULT_BACKUP_RETENTION: BackupRetentionPolicy =
+  config.BACKUP_RETENTION;
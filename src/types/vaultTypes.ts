@@ -1,4 +1,5 @@
 import config from "../../config.json";
+import { KdfParams, KeySlot, WrappedKey } from "./cryptoTypes";
 import { VaultEntry } from "./entryTypes";
 
 export interface Vault {
@@ -18,7 +19,10 @@ export interface VaultSettings {
   ui?: UISettings;
 }
 
+export type PasswordGeneratorMode = "characters" | "passphrase";
+
 export interface PasswordGeneratorSettings {
+  mode?: PasswordGeneratorMode; // "characters" par défaut
   length: number;
   includeUppercase: boolean;
   includeLowercase: boolean;
@@ -26,6 +30,15 @@ export interface PasswordGeneratorSettings {
   includeSymbols: boolean;
   excludeSimilar: boolean;
   customSymbols?: string;
+  passphrase?: PassphraseSettings;
+}
+
+export interface PassphraseSettings {
+  wordCount: number;
+  separator: string;
+  capitalize: boolean;
+  includeNumber: boolean;
+  includeSymbol: boolean;
 }
 
 export interface SecuritySettings {
@@ -33,6 +46,11 @@ export interface SecuritySettings {
   requireMasterPasswordOnStart: boolean;
   enableBiometric?: boolean;
   maxFailedAttempts: number;
+  kdf?: KdfParams; // Coût choisi par calibrateKdf pour ce vault
+  passwordHistoryLimit?: number; // Anciens mots de passe conservés par entrée
+  revisionLimit?: number; // Révisions conservées par entrée
+  revisionRetentionDays?: number; // Âge maximal des révisions (0 : illimité)
+  trashRetentionDays?: number; // Durée avant purge de la corbeille (0 : jamais)
 }
 
 export interface UISettings {
@@ -46,6 +64,9 @@ export interface EncryptedVault {
   data: string; // Données chiffrées
   salt: string; // Salt pour la dérivation de clé
   iv: string; // Vecteur d'initialisation
+  kdf?: KdfParams; // Absent pour les anciens vaults (PBKDF2-SHA256, 100 000 itérations)
+  wrappedKey?: WrappedKey; // Clé de données chiffrée par la clé dérivée du mot de passe
+  keySlots?: KeySlot[]; // Méthodes de déverrouillage supplémentaires (clé de secours)
   version: string;
   metadata?: VaultMetadata;
 }
@@ -58,11 +79,32 @@ export interface VaultMetadata {
   checksum?: string;
 }
 
+// Étape de migration d'un vault d'une version de format à la suivante
+export interface VaultMigration {
+  from: string; // Version lue
+  to: string; // Version produite
+  migrate: (vault: Vault) => Vault; // Les anciens champs sont lus par cast
+}
+
+export interface UpgradeVaultOptions {
+  migrations?: VaultMigration[]; // VAULT_MIGRATIONS par défaut
+  supportedVersions?: string[]; // SUPPORTED_VERSIONS par défaut
+  targetVersion?: string; // VAULT_VERSION par défaut
+}
+
 // Constantes importées depuis config.json
 export const VAULT_VERSION = config.VAULT_VERSION;
 export const SUPPORTED_VERSIONS = config.SUPPORTED_VERSIONS;
 export const DEFAULT_VAULT_SETTINGS: VaultSettings =
   config.DEFAULT_VAULT_SETTINGS as VaultSettings;
+export const DEFAULT_PASSWORD_HISTORY_LIMIT =
+  config.DEFAULT_VAULT_SETTINGS.security.passwordHistoryLimit;
+export const DEFAULT_REVISION_LIMIT =
+  config.DEFAULT_VAULT_SETTINGS.security.revisionLimit;
+export const DEFAULT_REVISION_RETENTION_DAYS =
+  config.DEFAULT_VAULT_SETTINGS.security.revisionRetentionDays;
+export const DEFAULT_TRASH_RETENTION_DAYS =
+  config.DEFAULT_VAULT_SETTINGS.security.trashRetentionDays;
 
 // Types utilitaires pour les vaults
 export type CreateVaultData = Omit<
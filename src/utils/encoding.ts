@@ -0,0 +1,136 @@
+/**
+ * Encodes bytes as a base64 string
+ * @param bytes - Bytes to encode
+ * @returns Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+
+  // Process in chunks to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * Decodes a base64 string into bytes
+ * @param base64 - Base64 string to decode
+ * @returns Decoded bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+/**
+ * Encodes bytes as a lowercase hexadecimal string
+ * @param bytes - Bytes to encode
+ * @returns Hexadecimal string
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+/**
+ * RFC 4648 base32 alphabet (used by TOTP secrets)
+ */
+export const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Crockford base32 alphabet (no I, L, O, U: easier to read and type)
+ */
+export const CROCKFORD_BASE32_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/**
+ * Encodes bytes as an unpadded base32 string
+ * @param bytes - Bytes to encode
+ * @param alphabet - 32-character alphabet (defaults to RFC 4648)
+ * @returns Base32 string
+ */
+export function bytesToBase32(
+  bytes: Uint8Array,
+  alphabet: string = BASE32_ALPHABET
+): string {
+  let result = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+
+    while (bits >= 5) {
+      result += alphabet[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    result += alphabet[(buffer << (5 - bits)) & 31];
+  }
+
+  return result;
+}
+
+/**
+ * Decodes an unpadded base32 string into bytes
+ * Trailing bits that do not form a full byte are discarded
+ * @param text - Base32 string (must only contain alphabet characters)
+ * @param alphabet - 32-character alphabet (defaults to RFC 4648)
+ * @returns Decoded bytes
+ * @throws Error if the string contains a character outside the alphabet
+ */
+export function base32ToBytes(
+  text: string,
+  alphabet: string = BASE32_ALPHABET
+): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of text) {
+    const value = alphabet.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    buffer = ((buffer << 5) | value) & 0xffff;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Whether a string is unpadded base32 that decodes to whole bytes
+ * @param text - String to check
+ * @param alphabet - 32-character alphabet (defaults to RFC 4648)
+ * @returns True if every character is in the alphabet and the length is
+ * one a base32 encoder can produce
+ */
+export function isBase32(
+  text: string,
+  alphabet: string = BASE32_ALPHABET
+): boolean {
+  // 1, 3 and 6 trailing characters cannot encode a whole number of bytes
+  if (text.length === 0 || [1, 3, 6].includes(text.length % 8)) {
+    return false;
+  }
+  return Array.from(text).every((char) => alphabet.includes(char));
+}
@@ -0,0 +1,20 @@
+/**
+ * Base class for every error thrown by SafeKeys-Core
+ *
+ * Each error carries a stable `code` so clients can branch on the failure
+ * without parsing messages (which may change or be translated).
+ */
+export class SafeKeysError extends Error {
+  readonly code: string;
+  readonly cause?: unknown;
+
+  constructor(code: string, message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Returns a uniformly distributed random integer in [0, max)
+ * Uses rejection sampling on crypto.getRandomValues to avoid modulo bias
+ * @param max - Exclusive upper bound (1 to 2^32)
+ * @returns A cryptographically secure random integer
+ */
+export function randomInt(max: number): number {
+  if (!Number.isInteger(max) || max <= 0 || max > UINT32_RANGE) {
+    throw new RangeError(`randomInt max must be an integer in [1, 2^32]`);
+  }
+
+  // Largest multiple of max that fits in 32 bits: values above it are rejected
+  const limit = UINT32_RANGE - (UINT32_RANGE % max);
+  const buffer = new Uint32Array(1);
+
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+
+  return buffer[0] % max;
+}
+
+/**
+ * Picks a random element from a non-empty array or string
+ * @param items - Items to pick from
+ * @returns A uniformly selected element
+ */
+export function randomElement<T>(items: ArrayLike<T>): T {
+  return items[randomInt(items.length)];
+}
+
+/**
+ * Shuffles an array using the Fisher-Yates algorithm and a secure RNG
+ * @param items - Items to shuffle
+ * @returns A new shuffled array (the input is left untouched)
+ */
+export function secureShuffle<T>(items: readonly T[]): T[] {
+  const result = [...items];
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+}
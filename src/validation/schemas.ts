@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { EntryCategory, FieldType } from "../types";
+import { isBase32 } from "../utils/encoding";
 
 const urlSchema = z.string().url("Invalid URL format").optional();
 const emailSchema = z.string().email("Invalid email format");
@@ -58,6 +59,59 @@ const customFieldSchema = z
     }
   );
 
+// TOTP/HOTP authenticator (secrets are stored normalized: uppercase base32)
+const otpParamsSchema = z
+  .object({
+    type: z.enum(["totp", "hotp"], {
+      errorMap: () => ({ message: "Invalid OTP type" }),
+    }),
+    secret: z.string().refine(isBase32, {
+      message: "OTP secret must be a valid base32 string",
+    }),
+    algorithm: z.enum(["SHA1", "SHA256", "SHA512"], {
+      errorMap: () => ({ message: "Invalid OTP algorithm" }),
+    }),
+    digits: z.number().int().min(6).max(8),
+    period: z.number().int().positive(),
+    counter: z.number().int().nonnegative().optional(),
+    issuer: z.string().optional(),
+    label: z.string().optional(),
+  })
+  .refine((otp) => otp.type !== "hotp" || otp.counter !== undefined, {
+    message: "HOTP requires a counter",
+    path: ["counter"],
+  });
+
+// Previous passwords kept by updateEntry
+const passwordHistorySchema = z.array(
+  z.object({
+    value: z.string(),
+    changedAt: z.date({
+      required_error: "Password change date is required",
+      invalid_type_error: "Valid password change date is required",
+    }),
+  })
+);
+
+// Previous states kept by updateEntry (validated when the entry is edited)
+const revisionsSchema = z.array(
+  z.object({
+    id: z.string().min(1, "Revision ID is required"),
+    changedAt: z.date({
+      required_error: "Revision date is required",
+      invalid_type_error: "Valid revision date is required",
+    }),
+    entry: z
+      .object({
+        id: z.string(),
+        title: z.string(),
+        createdAt: z.date(),
+        updatedAt: z.date(),
+      })
+      .passthrough(),
+  })
+);
+
 // Username validation with email detection
 const usernameSchema = z
   .string()
@@ -92,6 +146,12 @@ export const vaultEntrySchema = z.object({
     })
     .default(EntryCategory.LOGIN),
   customFields: z.array(customFieldSchema).default([]),
+  totp: otpParamsSchema.optional(),
+  passwordHistory: passwordHistorySchema.optional(),
+  revisions: revisionsSchema.optional(),
+  deletedAt: z
+    .date({ invalid_type_error: "Valid deletion date is required" })
+    .optional(),
   createdAt: z.date({
     required_error: "Creation date is required",
     invalid_type_error: "Valid creation date is required",
@@ -113,6 +173,9 @@ export const createVaultEntrySchema = z.object({
   favorite: z.boolean().optional(),
   category: z.nativeEnum(EntryCategory).optional(),
   customFields: z.array(customFieldSchema).optional(),
+  totp: otpParamsSchema.optional(),
+  passwordHistory: passwordHistorySchema.optional(),
+  revisions: revisionsSchema.optional(),
 });
 
 // Schema for updating entries (all fields optional except constraints)
@@ -126,6 +189,9 @@ export const updateVaultEntrySchema = z.object({
   favorite: z.boolean().optional(),
   category: z.nativeEnum(EntryCategory).optional(),
   customFields: z.array(customFieldSchema).optional(),
+  totp: otpParamsSchema.optional(),
+  passwordHistory: passwordHistorySchema.optional(),
+  revisions: revisionsSchema.optional(),
 });
 
 // Schema for custom field creation
@@ -167,3 +233,4 @@ export type CreateVaultEntryInput = z.infer<typeof createVaultEntrySchema>;
 export type UpdateVaultEntryInput = z.infer<typeof updateVaultEntrySchema>;
 export type CustomFieldInput = z.infer<typeof customFieldSchema>;
 export type CreateCustomFieldInput = z.infer<typeof createCustomFieldSchema>;
+export type OtpParamsInput = z.infer<typeof otpParamsSchema>;
@@ -3,18 +3,24 @@ import {
   ValidationResult,
   Vault,
   VaultEntry,
+  VaultMutationOptions,
 } from "../types";
 import { createEntry, validateCreateEntryData } from "./entry";
+import { diffVaults, toOperationEntry } from "./operations";
+import { moveToTrash } from "./trash";
 
 /**
  * Adds multiple entries to a vault in a single operation
  * @param vault - Vault to add entries to
  * @param entriesData - Array of entry data to add
+ * @param options - Mutation options (`onOperation` receives one
+ * `entryAdded` per entry)
  * @returns Object with updated vault, created entries, and validation results
  */
 export const bulkAddEntries = (
   vault: Vault,
-  entriesData: CreateVaultEntryData[]
+  entriesData: CreateVaultEntryData[],
+  options: VaultMutationOptions = {}
 ): {
   vault: Vault;
   entries: VaultEntry[];
@@ -41,6 +47,12 @@ export const bulkAddEntries = (
 
   // Create entries
   const newEntries = entriesData.map((data) => createEntry(data));
+  newEntries.forEach((entry) =>
+    options.onOperation?.({
+      type: "entryAdded",
+      entry: toOperationEntry(entry),
+    })
+  );
 
   // Add entries to vault
   const updatedVault = {
@@ -57,29 +69,21 @@ export const bulkAddEntries = (
 };
 
 /**
- * Deletes multiple entries from a vault in a single operation
+ * Moves multiple entries to the trash in a single operation
  * @param vault - Vault to delete entries from
  * @param entryIds - Array of entry IDs to delete
- * @returns Updated vault without the specified entries
+ * @param options - Mutation options (`onOperation` receives one
+ * `entryDeleted` per entry)
+ * @returns Updated vault with the specified entries in the trash
  */
-export const bulkDeleteEntries = (vault: Vault, entryIds: string[]): Vault => {
-  // Create a set for faster lookups
-  const idsToDelete = new Set(entryIds);
-
-  // Filter out entries to delete
-  const remainingEntries = vault.entries.filter(
-    (entry) => !idsToDelete.has(entry.id)
-  );
-
-  // If no entries were deleted, return the original vault
-  if (remainingEntries.length === vault.entries.length) {
-    return vault;
+export const bulkDeleteEntries = (
+  vault: Vault,
+  entryIds: string[],
+  options: VaultMutationOptions = {}
+): Vault => {
+  const updated = moveToTrash(vault, entryIds);
+  if (options.onOperation && updated !== vault) {
+    diffVaults(vault, updated).forEach(options.onOperation);
   }
-
-  // Return updated vault
-  return {
-    ...vault,
-    entries: remainingEntries,
-    updatedAt: new Date(),
-  };
+  return updated;
 };
@@ -1,7 +1,14 @@
-import { CustomField, FieldType, ValidationResult, VaultEntry } from "../types";
+import {
+  CustomField,
+  CustomFieldMutationOptions,
+  FieldType,
+  ValidationResult,
+  VaultEntry,
+} from "../types";
 import { generateId } from "../utils/id-generator";
 import { validateCreateCustomField } from "../validation/validator";
 import { updateEntryData } from "./entry";
+import { diffCustomField } from "./operations";
 
 /**
  * Creates a new custom field
@@ -26,53 +33,76 @@ export const createCustomField = (
   };
 };
 
+/**
+ * Replaces the custom fields of an entry and reports the changed field
+ */
+const changeCustomFields = (
+  entry: VaultEntry,
+  customFields: CustomField[],
+  fieldId: string,
+  options: CustomFieldMutationOptions
+): VaultEntry => {
+  const updated = updateEntryData(entry, { customFields }, options.settings);
+  options.onOperation?.(diffCustomField(entry, updated, fieldId));
+  return updated;
+};
+
 /**
  * Updates a custom field in an entry
  * @param entry - Entry containing the custom field
  * @param fieldId - ID of the custom field to update
  * @param updates - Updates to apply to the custom field
+ * @param options - Mutation options (`onOperation` receives
+ * `customFieldChanged`, `settings` holds the vault's revision limits)
  * @returns Updated VaultEntry
  */
 export const updateCustomField = (
   entry: VaultEntry,
   fieldId: string,
-  updates: Partial<Omit<CustomField, "id">>
+  updates: Partial<Omit<CustomField, "id">>,
+  options: CustomFieldMutationOptions = {}
 ): VaultEntry => {
   const customFields =
     entry.customFields?.map((field) =>
       field.id === fieldId ? { ...field, ...updates } : field
     ) || [];
 
-  return updateEntryData(entry, { customFields });
+  return changeCustomFields(entry, customFields, fieldId, options);
 };
 
 /**
  * Adds a custom field to an entry
  * @param entry - Entry to add field to
  * @param field - Custom field to add
+ * @param options - Mutation options (`onOperation` receives
+ * `customFieldChanged`, `settings` holds the vault's revision limits)
  * @returns Updated VaultEntry
  */
 export const addCustomField = (
   entry: VaultEntry,
-  field: CustomField
+  field: CustomField,
+  options: CustomFieldMutationOptions = {}
 ): VaultEntry => {
   const customFields = [...(entry.customFields || []), field];
-  return updateEntryData(entry, { customFields });
+  return changeCustomFields(entry, customFields, field.id, options);
 };
 
 /**
  * Removes a custom field from an entry
  * @param entry - Entry to remove field from
  * @param fieldId - ID of the custom field to remove
+ * @param options - Mutation options (`onOperation` receives
+ * `customFieldChanged`, `settings` holds the vault's revision limits)
  * @returns Updated VaultEntry
  */
 export const removeCustomField = (
   entry: VaultEntry,
-  fieldId: string
+  fieldId: string,
+  options: CustomFieldMutationOptions = {}
 ): VaultEntry => {
   const customFields =
     entry.customFields?.filter((field) => field.id !== fieldId) || [];
-  return updateEntryData(entry, { customFields });
+  return changeCustomFields(entry, customFields, fieldId, options);
 };
 
 /**
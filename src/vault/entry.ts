@@ -1,6 +1,14 @@
 import {
   CreateVaultEntryData,
+  DEFAULT_PASSWORD_HISTORY_LIMIT,
+  DEFAULT_REVISION_LIMIT,
+  DEFAULT_REVISION_RETENTION_DAYS,
   EntryCategory,
+  EntryFieldChange,
+  EntryRevision,
+  EntrySnapshot,
+  PasswordHistoryEntry,
+  SecuritySettings,
   ValidationResult,
   VaultEntry,
 } from "../types";
@@ -30,31 +38,201 @@ export const createEntry = (data: CreateVaultEntryData): VaultEntry => {
     favorite: data.favorite || false,
     category: data.category || EntryCategory.LOGIN,
     customFields: data.customFields || [],
+    totp: data.totp,
     createdAt: now,
     updatedAt: now,
   };
 };
 
+/**
+ * Entry properties tracked by revisions (the others are metadata)
+ * The password is left out: previous passwords are only kept in
+ * `passwordHistory`, so its limit and clearPasswordHistory cover them all.
+ */
+export const ENTRY_REVISION_FIELDS = [
+  "title",
+  "username",
+  "url",
+  "notes",
+  "tags",
+  "favorite",
+  "category",
+  "totp",
+  "customFields",
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Treats empty strings and empty lists like missing values
+ */
+const normalizeValue = (value: unknown): unknown => {
+  if (value === "" || (Array.isArray(value) && value.length === 0)) {
+    return undefined;
+  }
+  return value;
+};
+
+/**
+ * Builds a field change, leaving out missing sides
+ */
+const fieldChange = (
+  field: string,
+  previous: unknown,
+  current: unknown
+): EntryFieldChange => ({
+  field,
+  ...(previous !== undefined ? { previous } : {}),
+  ...(current !== undefined ? { current } : {}),
+});
+
+/**
+ * Compares two states of an entry field by field
+ * Custom fields are matched by id and reported as "customFields.<name>".
+ * @param previous - Earlier state of the entry
+ * @param current - Later state of the entry
+ * @returns EntryFieldChange[] - One item per changed field
+ */
+export const diffEntries = (
+  previous: EntrySnapshot,
+  current: EntrySnapshot
+): EntryFieldChange[] => {
+  const changes: EntryFieldChange[] = [];
+  const isSame = (a: unknown, b: unknown) =>
+    JSON.stringify(a) === JSON.stringify(b);
+
+  for (const field of ENTRY_REVISION_FIELDS) {
+    const before = normalizeValue(previous[field]);
+    const after = normalizeValue(current[field]);
+
+    if (field !== "customFields" && !isSame(before, after)) {
+      changes.push(fieldChange(field, before, after));
+    }
+  }
+
+  const previousFields = new Map(
+    (previous.customFields || []).map((field) => [field.id, field])
+  );
+  const currentFields = new Map(
+    (current.customFields || []).map((field) => [field.id, field])
+  );
+  const ids = new Set([...previousFields.keys(), ...currentFields.keys()]);
+
+  for (const id of ids) {
+    const before = previousFields.get(id);
+    const after = currentFields.get(id);
+
+    if (!isSame(before, after)) {
+      const name = (after || before)?.name;
+      changes.push(fieldChange(`customFields.${name}`, before, after));
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Strips the password and history of an entry, keeping the state stored by
+ * a revision
+ */
+const toSnapshot = (entry: VaultEntry): EntrySnapshot => {
+  const { password, passwordHistory, revisions, ...snapshot } = entry;
+  return snapshot;
+};
+
+/**
+ * Applies the revision retention settings: the most recent revisions are
+ * kept up to `revisionLimit`, and revisions older than
+ * `revisionRetentionDays` are dropped (0 keeps them regardless of age)
+ * @param revisions - Revisions, most recent first
+ * @param settings - Vault security settings (defaults when missing)
+ * @param now - Reference date for the age limit
+ * @returns EntryRevision[] - Retained revisions
+ */
+export const pruneRevisions = (
+  revisions: EntryRevision[],
+  settings: Partial<SecuritySettings> = {},
+  now: Date = new Date()
+): EntryRevision[] => {
+  const limit = settings.revisionLimit ?? DEFAULT_REVISION_LIMIT;
+  const days =
+    settings.revisionRetentionDays ?? DEFAULT_REVISION_RETENTION_DAYS;
+  const oldest = now.getTime() - days * DAY_MS;
+
+  return revisions
+    .filter((revision) => days <= 0 || revision.changedAt.getTime() >= oldest)
+    .slice(0, Math.max(limit, 0));
+};
+
+/**
+ * Computes the password history after an update
+ * The replaced password is added first and the oldest ones are dropped
+ * beyond the limit.
+ */
+const recordPasswordChange = (
+  entry: VaultEntry,
+  updates: Partial<VaultEntry>,
+  historyLimit: number,
+  changedAt: Date
+): PasswordHistoryEntry[] | undefined => {
+  const history = updates.passwordHistory ?? entry.passwordHistory;
+  const changed = "password" in updates && updates.password !== entry.password;
+
+  if (!changed || !entry.password) {
+    return history;
+  }
+
+  return [{ value: entry.password, changedAt }, ...(history || [])].slice(
+    0,
+    Math.max(historyLimit, 0)
+  );
+};
+
 /**
  * Updates an existing vault entry
+ * A changed password is kept in `passwordHistory` and, when any other
+ * tracked field changes, the previous state is kept in `revisions`.
  * @param entry - Original entry
  * @param updates - Partial updates to apply
+ * @param settings - Vault security settings holding the history limits
+ * (defaults when missing)
  * @returns Updated VaultEntry with new updatedAt timestamp
  */
 export const updateEntryData = (
   entry: VaultEntry,
-  updates: Partial<VaultEntry>
+  updates: Partial<VaultEntry>,
+  settings: Partial<SecuritySettings> = {}
 ): VaultEntry => {
   const now = new Date();
   now.setMilliseconds(now.getMilliseconds() + 1);
 
-  return {
+  const updated: VaultEntry = {
     ...entry,
     ...updates,
     id: entry.id,
     createdAt: entry.createdAt,
     updatedAt: now,
   };
+
+  const previous = toSnapshot(entry);
+  const revisions =
+    diffEntries(previous, toSnapshot(updated)).length > 0
+      ? [
+          { id: generateId(), changedAt: now, entry: previous },
+          ...(updated.revisions || []),
+        ]
+      : updated.revisions;
+
+  return {
+    ...updated,
+    passwordHistory: recordPasswordChange(
+      entry,
+      updates,
+      settings.passwordHistoryLimit ?? DEFAULT_PASSWORD_HISTORY_LIMIT,
+      now
+    ),
+    revisions: revisions && pruneRevisions(revisions, settings, now),
+  };
 };
 
 /**
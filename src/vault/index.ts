@@ -14,6 +14,24 @@ export * from "./customFields";
 // Re-export vault operations
 export * from "./vault";
 
+// Re-export password history operations
+export * from "./passwordHistory";
+
+// Re-export entry revision operations
+export * from "./revisions";
+
+// Re-export editing sessions
+export * from "./session";
+
+// Re-export operation log helpers
+export * from "./operations";
+
+// Re-export trash operations
+export * from "./trash";
+
+// Re-export merge operations
+export * from "./merge";
+
 // Re-export search operations
 export * from "./search";
 
@@ -22,3 +40,9 @@ export * from "./stats";
 
 // Re-export bulk operations
 export * from "./bulk";
+
+// Re-export serialization operations
+export * from "./serialization";
+
+// Re-export format migrations
+export * from "./migrations";
@@ -0,0 +1,507 @@
+import {
+  CustomField,
+  DEFAULT_PASSWORD_HISTORY_LIMIT,
+  EntryRevision,
+  MergeConflict,
+  MergeSide,
+  PasswordHistoryEntry,
+  SecuritySettings,
+  Vault,
+  VaultEntry,
+  VaultMergeResult,
+  VaultSettings,
+} from "../types";
+import { diffEntries, ENTRY_REVISION_FIELDS, pruneRevisions } from "./entry";
+
+/**
+ * Entry properties merged field by field: those tracked by revisions, and
+ * the password
+ */
+const MERGED_FIELDS = [...ENTRY_REVISION_FIELDS, "password"] as const;
+
+type MergedFields = Pick<VaultEntry, (typeof MERGED_FIELDS)[number]>;
+
+/**
+ * Where a merge happens: the entry (none for vault properties), the update
+ * dates used to settle conflicts, and the conflicts found so far
+ */
+interface MergeContext {
+  entryId?: string;
+  localDate: Date;
+  remoteDate: Date;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Serializes a value for comparison, empty strings and lists counting as
+ * missing values
+ */
+const serialize = (value: unknown): string => {
+  if (value === "" || (Array.isArray(value) && value.length === 0)) {
+    return "";
+  }
+  return JSON.stringify(value) ?? "";
+};
+
+const isSame = (a: unknown, b: unknown): boolean =>
+  serialize(a) === serialize(b);
+
+const compareText = (a: string, b: string): number =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+/**
+ * Settles a conflict: the most recently updated side wins, and the greatest
+ * value breaks ties, so both devices pick the same side
+ */
+const pickSide = (
+  context: MergeContext,
+  local: unknown,
+  remote: unknown
+): MergeSide => {
+  const delta = context.localDate.getTime() - context.remoteDate.getTime();
+  if (delta !== 0) {
+    return delta > 0 ? "local" : "remote";
+  }
+  return serialize(local) > serialize(remote) ? "local" : "remote";
+};
+
+/**
+ * Builds a conflict, leaving out missing values
+ */
+const conflict = (
+  context: MergeContext,
+  details: Omit<MergeConflict, "entryId">
+): MergeConflict =>
+  Object.fromEntries(
+    Object.entries({ entryId: context.entryId, ...details }).filter(
+      ([, value]) => value !== undefined
+    )
+  ) as unknown as MergeConflict;
+
+/**
+ * Three-way merge of a single value
+ * A value changed on one side only is taken from that side; a value changed
+ * differently on both sides is a conflict.
+ */
+const mergeValue = <T>(
+  context: MergeContext,
+  field: string,
+  base: T,
+  local: T,
+  remote: T
+): T => {
+  if (isSame(local, remote)) {
+    return local ?? remote;
+  }
+  if (isSame(base, local)) {
+    return remote;
+  }
+  if (isSame(base, remote)) {
+    return local;
+  }
+
+  const resolution = pickSide(context, local, remote);
+  context.conflicts.push(
+    conflict(context, { type: "edit", field, base, local, remote, resolution })
+  );
+  return resolution === "local" ? local : remote;
+};
+
+/**
+ * Three-way merge of a list by key: items added on either side are kept,
+ * items of the base removed on either side are dropped
+ */
+const mergeList = <T>(
+  base: T[] = [],
+  local: T[] = [],
+  remote: T[] = [],
+  key: (item: T) => string
+): T[] => {
+  const localKeys = new Set(local.map(key));
+  const remoteKeys = new Set(remote.map(key));
+  const removed = new Set(
+    base
+      .map(key)
+      .filter((itemKey) => !localKeys.has(itemKey) || !remoteKeys.has(itemKey))
+  );
+
+  const merged = new Map<string, T>();
+  [...local, ...remote].forEach((item) => {
+    if (!removed.has(key(item)) && !merged.has(key(item))) {
+      merged.set(key(item), item);
+    }
+  });
+
+  return [...merged.values()];
+};
+
+/**
+ * Orders merged ids: those of the base keep their position, added ones
+ * follow in the given order
+ */
+const orderIds = (
+  baseIds: string[],
+  ids: Set<string>,
+  compareAdded: (a: string, b: string) => number
+): string[] => {
+  const known = baseIds.filter((id) => ids.has(id));
+  const added = [...ids]
+    .filter((id) => !baseIds.includes(id))
+    .sort(compareAdded);
+
+  return [...known, ...added];
+};
+
+/**
+ * Merges custom fields by id
+ */
+const mergeCustomFields = (
+  context: MergeContext,
+  base: CustomField[] = [],
+  local: CustomField[] = [],
+  remote: CustomField[] = []
+): CustomField[] => {
+  const byId = (fields: CustomField[]) =>
+    new Map(fields.map((field) => [field.id, field]));
+  const baseFields = byId(base);
+  const localFields = byId(local);
+  const remoteFields = byId(remote);
+  const ids = orderIds(
+    base.map((field) => field.id),
+    new Set([...localFields.keys(), ...remoteFields.keys()]),
+    compareText
+  );
+
+  return ids
+    .map((id) => {
+      const baseField = baseFields.get(id);
+      const localField = localFields.get(id);
+      const remoteField = remoteFields.get(id);
+      const name = (localField || remoteField || baseField)?.name;
+      return mergeValue(
+        context,
+        `customFields.${name}`,
+        baseField,
+        localField,
+        remoteField
+      );
+    })
+    .filter((field): field is CustomField => field !== undefined);
+};
+
+/**
+ * Merges the password histories of both sides
+ * A new password that lost a conflict is kept in the history, dated from
+ * its side's last update. A password replaced on both sides is kept once.
+ */
+const mergePasswordHistory = (
+  base: VaultEntry | undefined,
+  local: VaultEntry,
+  remote: VaultEntry,
+  password: string | undefined,
+  limit: number
+): PasswordHistoryEntry[] | undefined => {
+  const lost = [local, remote]
+    .filter(
+      (side) =>
+        side.password &&
+        side.password !== password &&
+        side.password !== base?.password
+    )
+    .map((side) => ({
+      value: side.password as string,
+      changedAt: side.updatedAt,
+    }));
+
+  if (!local.passwordHistory && !remote.passwordHistory && !lost.length) {
+    return undefined;
+  }
+
+  return [
+    ...lost,
+    ...mergeList(
+      base?.passwordHistory,
+      local.passwordHistory,
+      remote.passwordHistory,
+      (item) => `${item.changedAt.getTime()}:${item.value}`
+    ),
+  ]
+    .sort(
+      (a, b) =>
+        b.changedAt.getTime() - a.changedAt.getTime() ||
+        compareText(a.value, b.value)
+    )
+    .filter(
+      (item, index, history) =>
+        history.findIndex((other) => other.value === item.value) === index
+    )
+    .slice(0, Math.max(limit, 0));
+};
+
+/**
+ * Merges the revisions of both sides by id, applying the retention settings
+ */
+const mergeRevisions = (
+  base: VaultEntry | undefined,
+  local: VaultEntry,
+  remote: VaultEntry,
+  settings: Partial<SecuritySettings>,
+  now: Date
+): EntryRevision[] | undefined => {
+  if (!local.revisions && !remote.revisions) {
+    return undefined;
+  }
+
+  const revisions = mergeList(
+    base?.revisions,
+    local.revisions,
+    remote.revisions,
+    (revision) => revision.id
+  ).sort(
+    (a, b) =>
+      b.changedAt.getTime() - a.changedAt.getTime() || compareText(a.id, b.id)
+  );
+
+  return pruneRevisions(revisions, settings, now);
+};
+
+/**
+ * Whether a side edited or restored an entry since the base
+ * Moving an entry to the trash does not count as an edit.
+ */
+const hasChanged = (base: VaultEntry, entry: VaultEntry): boolean =>
+  diffEntries(base, entry).length > 0 ||
+  !isSame(base.password, entry.password) ||
+  (!!base.deletedAt && !entry.deletedAt);
+
+/**
+ * Merges an entry present on both sides, field by field
+ */
+const mergeEntry = (
+  context: MergeContext,
+  base: VaultEntry | undefined,
+  local: VaultEntry,
+  remote: VaultEntry,
+  settings: Partial<SecuritySettings>,
+  now: Date
+): VaultEntry => {
+  const fields = Object.fromEntries(
+    MERGED_FIELDS.filter((field) => field !== "customFields").map((field) => [
+      field,
+      mergeValue(context, field, base?.[field], local[field], remote[field]),
+    ])
+  ) as unknown as MergedFields;
+  const customFields = mergeCustomFields(
+    context,
+    base?.customFields,
+    local.customFields,
+    remote.customFields
+  );
+
+  // An entry trashed on both sides keeps the earliest deletion date
+  let deletedAt =
+    local.deletedAt && remote.deletedAt
+      ? new Date(
+          Math.min(local.deletedAt.getTime(), remote.deletedAt.getTime())
+        )
+      : mergeValue(
+          context,
+          "deletedAt",
+          base?.deletedAt,
+          local.deletedAt,
+          remote.deletedAt
+        );
+
+  // An entry trashed on one side and edited on the other stays in the vault
+  const kept = local.deletedAt ? remote : local;
+  if (deletedAt && base && !base.deletedAt && !kept.deletedAt) {
+    if (hasChanged(base, kept)) {
+      deletedAt = undefined;
+      context.conflicts.push(
+        conflict(context, {
+          type: "deleteEdit",
+          base,
+          local,
+          remote,
+          resolution: kept === local ? "local" : "remote",
+        })
+      );
+    }
+  }
+
+  return {
+    id: local.id,
+    ...fields,
+    customFields,
+    createdAt:
+      base?.createdAt ??
+      new Date(Math.min(local.createdAt.getTime(), remote.createdAt.getTime())),
+    updatedAt: new Date(
+      Math.max(local.updatedAt.getTime(), remote.updatedAt.getTime())
+    ),
+    passwordHistory: mergePasswordHistory(
+      base,
+      local,
+      remote,
+      fields.password,
+      settings.passwordHistoryLimit ?? DEFAULT_PASSWORD_HISTORY_LIMIT
+    ),
+    revisions: mergeRevisions(base, local, remote, settings, now),
+    deletedAt,
+  };
+};
+
+/**
+ * Merges the vault settings section by section
+ */
+const mergeSettings = (
+  context: MergeContext,
+  base: VaultSettings = {},
+  local: VaultSettings = {},
+  remote: VaultSettings = {}
+): VaultSettings | undefined => {
+  const sections = ["passwordGenerator", "security", "ui"] as const;
+  const settings = Object.fromEntries(
+    sections
+      .map((section) => [
+        section,
+        mergeValue(
+          context,
+          `settings.${section}`,
+          base[section],
+          local[section],
+          remote[section]
+        ),
+      ])
+      .filter(([, value]) => value !== undefined)
+  ) as VaultSettings;
+
+  return Object.keys(settings).length > 0 ? settings : undefined;
+};
+
+/**
+ * Three-way merge of two versions of a vault edited separately
+ * Entries are matched by id and merged field by field against their common
+ * ancestor. Fields changed differently on both sides are settled in favor
+ * of the most recently updated side. An entry deleted on one side and
+ * edited on the other is kept. The result does not depend on which side is
+ * local, so two devices merging the same versions converge.
+ * @param base - Last version both sides had in common
+ * @param local - Version edited on this device
+ * @param remote - Version edited on the other device
+ * @returns Merged vault and the conflicts that were settled
+ */
+export const mergeVaults = (
+  base: Vault,
+  local: Vault,
+  remote: Vault
+): VaultMergeResult => {
+  const conflicts: MergeConflict[] = [];
+  const vaultContext: MergeContext = {
+    localDate: local.updatedAt,
+    remoteDate: remote.updatedAt,
+    conflicts,
+  };
+  const updatedAt = new Date(
+    Math.max(local.updatedAt.getTime(), remote.updatedAt.getTime())
+  );
+
+  const name = mergeValue(
+    vaultContext,
+    "name",
+    base.name,
+    local.name,
+    remote.name
+  );
+  const description = mergeValue(
+    vaultContext,
+    "description",
+    base.description,
+    local.description,
+    remote.description
+  );
+  const settings = mergeSettings(
+    vaultContext,
+    base.settings,
+    local.settings,
+    remote.settings
+  );
+
+  const byId = (vault: Vault) =>
+    new Map(vault.entries.map((entry) => [entry.id, entry]));
+  const baseEntries = byId(base);
+  const localEntries = byId(local);
+  const remoteEntries = byId(remote);
+  const createdAt = (id: string) =>
+    Math.min(
+      ...[localEntries.get(id), remoteEntries.get(id)]
+        .filter((entry): entry is VaultEntry => entry !== undefined)
+        .map((entry) => entry.createdAt.getTime())
+    );
+  const ids = orderIds(
+    base.entries.map((entry) => entry.id),
+    new Set([...localEntries.keys(), ...remoteEntries.keys()]),
+    (a, b) => createdAt(a) - createdAt(b) || compareText(a, b)
+  );
+
+  const entries: VaultEntry[] = [];
+  for (const id of ids) {
+    const baseEntry = baseEntries.get(id);
+    const localEntry = localEntries.get(id);
+    const remoteEntry = remoteEntries.get(id);
+    const context: MergeContext = {
+      entryId: id,
+      localDate: (localEntry || baseEntry)?.updatedAt ?? updatedAt,
+      remoteDate: (remoteEntry || baseEntry)?.updatedAt ?? updatedAt,
+      conflicts,
+    };
+
+    if (localEntry && remoteEntry) {
+      entries.push(
+        mergeEntry(
+          context,
+          baseEntry,
+          localEntry,
+          remoteEntry,
+          settings?.security ?? {},
+          updatedAt
+        )
+      );
+      continue;
+    }
+
+    const kept = (localEntry || remoteEntry) as VaultEntry;
+    if (!baseEntry) {
+      entries.push(kept);
+    } else if (hasChanged(baseEntry, kept)) {
+      entries.push(kept);
+      conflicts.push(
+        conflict(context, {
+          type: "deleteEdit",
+          base: baseEntry,
+          local: localEntry,
+          remote: remoteEntry,
+          resolution: localEntry ? "local" : "remote",
+        })
+      );
+    }
+  }
+
+  const [version] = [local.version, remote.version].sort((a, b) =>
+    b.localeCompare(a, undefined, { numeric: true })
+  );
+
+  return {
+    vault: {
+      id: base.id,
+      name,
+      description,
+      entries,
+      createdAt: base.createdAt,
+      updatedAt,
+      version,
+      settings,
+    },
+    conflicts,
+  };
+};
@@ -0,0 +1,71 @@
+import {
+  SUPPORTED_VERSIONS,
+  UpgradeVaultOptions,
+  Vault,
+  VAULT_VERSION,
+  VaultMigration,
+} from "../types";
+import { UnsupportedVaultVersionError } from "../crypto/errors";
+
+/**
+ * Registered format migrations, one step per version bump
+ * When changing the vault shape: bump VAULT_VERSION in config.json, add the
+ * new version to SUPPORTED_VERSIONS and register a step from the previous
+ * version here.
+ */
+export const VAULT_MIGRATIONS: VaultMigration[] = [];
+
+/**
+ * Checks whether a vault format version can be read by this library
+ * @param version - Vault format version
+ * @param supportedVersions - Readable versions (defaults to SUPPORTED_VERSIONS)
+ * @returns True if the version is supported
+ */
+export const isSupportedVersion = (
+  version: string,
+  supportedVersions: string[] = SUPPORTED_VERSIONS
+): boolean => {
+  return supportedVersions.includes(version);
+};
+
+/**
+ * Upgrades a vault to the current format version by running the migration
+ * chain step by step (immutable operation)
+ * @param vault - Vault in any supported format version
+ * @param options - Migrations, supported and target versions (default to
+ * the library's own)
+ * @returns Vault in the target version (the input itself if already current)
+ * @throws UnsupportedVaultVersionError if the version is not supported or no
+ * migration path leads to the target version
+ */
+export const upgradeVault = (
+  vault: Vault,
+  options: UpgradeVaultOptions = {}
+): Vault => {
+  const migrations = options.migrations || VAULT_MIGRATIONS;
+  const targetVersion = options.targetVersion || VAULT_VERSION;
+
+  if (!isSupportedVersion(vault.version, options.supportedVersions)) {
+    throw new UnsupportedVaultVersionError(vault.version);
+  }
+
+  let upgraded = vault;
+
+  // Each migration can run at most once, which also stops cyclic chains
+  for (let step = 0; step <= migrations.length; step++) {
+    if (upgraded.version === targetVersion) {
+      return upgraded;
+    }
+
+    const migration = migrations.find(
+      (candidate) => candidate.from === upgraded.version
+    );
+    if (!migration) {
+      break;
+    }
+
+    upgraded = { ...migration.migrate(upgraded), version: migration.to };
+  }
+
+  throw new UnsupportedVaultVersionError(vault.version);
+};
@@ -0,0 +1,380 @@
+import {
+  CustomField,
+  EntryPatch,
+  SecuritySettings,
+  Vault,
+  VaultEntry,
+  VaultOperation,
+} from "../types";
+import { diffEntries, updateEntryData } from "./entry";
+
+/**
+ * Entry properties derived from the other changes: left out of patches,
+ * which would otherwise carry every previous password and revision, and
+ * rebuilt when the patches are applied
+ */
+const HISTORY_FIELDS: (keyof VaultEntry)[] = ["passwordHistory", "revisions"];
+
+/**
+ * Strips the password history and revisions of an entry carried by an
+ * `entryAdded` or `entryDeleted` operation
+ * @param entry - Entry added or deleted
+ * @returns VaultEntry - The entry without its history
+ */
+export const toOperationEntry = (entry: VaultEntry): VaultEntry => {
+  const { passwordHistory, revisions, ...rest } = entry;
+  return rest;
+};
+
+/**
+ * Builds a patch, leaving out missing sides
+ */
+const patch = (
+  field: keyof VaultEntry,
+  previous: unknown,
+  current: unknown
+): EntryPatch => ({
+  field,
+  ...(previous !== undefined ? { previous } : {}),
+  ...(current !== undefined ? { current } : {}),
+});
+
+/**
+ * Lists the properties that differ between two states of an entry
+ * @param before - Earlier state of the entry
+ * @param after - Later state of the entry
+ * @param ignored - Properties left out of the comparison (the password
+ * history and revisions by default)
+ * @returns EntryPatch[] - One patch per changed property
+ */
+export const diffEntryProperties = (
+  before: VaultEntry,
+  after: VaultEntry,
+  ignored: (keyof VaultEntry)[] = HISTORY_FIELDS
+): EntryPatch[] => {
+  const fields = new Set([
+    ...Object.keys(before),
+    ...Object.keys(after),
+  ]) as Set<keyof VaultEntry>;
+
+  return [...fields]
+    .filter(
+      (field) =>
+        field !== "id" &&
+        !ignored.includes(field) &&
+        JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    )
+    .map((field) => patch(field, before[field], after[field]));
+};
+
+/**
+ * Describes the changes between two versions of a vault as operations
+ * Entries moved to the trash or removed become `entryDeleted` operations.
+ * Added and deleted entries are carried without their history.
+ * @param before - Earlier version of the vault
+ * @param after - Later version of the vault
+ * @returns VaultOperation[] - Operations turning `before` into `after`
+ */
+export const diffVaults = (before: Vault, after: Vault): VaultOperation[] => {
+  const afterEntries = new Map(after.entries.map((entry) => [entry.id, entry]));
+  const beforeIds = new Set(before.entries.map((entry) => entry.id));
+  const operations: VaultOperation[] = [];
+
+  for (const entry of before.entries) {
+    const updated = afterEntries.get(entry.id);
+
+    if (!updated) {
+      operations.push({ type: "entryDeleted", entry: toOperationEntry(entry) });
+    } else if (!entry.deletedAt && updated.deletedAt) {
+      operations.push({
+        type: "entryDeleted",
+        entry: toOperationEntry(entry),
+        deletedAt: updated.deletedAt,
+      });
+    } else if (updated !== entry) {
+      const changes = diffEntryProperties(entry, updated);
+      if (changes.length > 0) {
+        operations.push({ type: "entryUpdated", entryId: entry.id, changes });
+      }
+    }
+  }
+
+  for (const entry of after.entries) {
+    if (!beforeIds.has(entry.id)) {
+      operations.push({ type: "entryAdded", entry: toOperationEntry(entry) });
+    }
+  }
+
+  return operations;
+};
+
+/**
+ * Describes a custom field change made to an entry
+ * @param before - Entry before the change
+ * @param after - Entry after the change
+ * @param fieldId - ID of the changed custom field
+ * @returns VaultOperation - The `customFieldChanged` operation
+ */
+export const diffCustomField = (
+  before: VaultEntry,
+  after: VaultEntry,
+  fieldId: string
+): VaultOperation => {
+  const find = (entry: VaultEntry) =>
+    entry.customFields?.find((field) => field.id === fieldId);
+  const previous = find(before);
+  const current = find(after);
+
+  return {
+    type: "customFieldChanged",
+    entryId: before.id,
+    fieldId,
+    ...(previous ? { previous } : {}),
+    ...(current ? { current } : {}),
+    changes: diffEntryProperties(before, after, [
+      ...HISTORY_FIELDS,
+      "customFields",
+    ]),
+  };
+};
+
+/**
+ * Removes the history added by the change an undo operation reverts: the
+ * replaced password at the head of the password history, and the revision
+ * recorded when tracked fields changed
+ * History items dropped by the limits when the change was made are not
+ * brought back.
+ */
+const dropUndoneHistory = (
+  entry: VaultEntry,
+  restored: VaultEntry
+): VaultEntry => {
+  const { passwordHistory, revisions, ...rest } = restored;
+  const passwordRestored =
+    restored.password !== entry.password && Boolean(restored.password);
+  const history = passwordRestored
+    ? passwordHistory?.slice(1)
+    : passwordHistory;
+  const kept =
+    diffEntries(entry, restored).length > 0 ? revisions?.slice(1) : revisions;
+
+  return {
+    ...rest,
+    ...(history?.length ? { passwordHistory: history } : {}),
+    ...(kept?.length ? { revisions: kept } : {}),
+  };
+};
+
+/**
+ * Applies patches to an entry, removing properties without a current value
+ * The password history and revisions are rebuilt as updateEntryData does,
+ * within the vault's limits, or trimmed of what the reverted change added
+ * for an undo operation.
+ */
+const applyPatches = (
+  entry: VaultEntry,
+  changes: EntryPatch[],
+  settings: Partial<SecuritySettings> = {},
+  undo = false
+): VaultEntry => {
+  const updated = { ...entry } as Record<string, unknown>;
+  for (const change of changes) {
+    if ("current" in change) {
+      updated[change.field] = change.current;
+    } else {
+      delete updated[change.field];
+    }
+  }
+  if (undo) {
+    return dropUndoneHistory(entry, updated as unknown as VaultEntry);
+  }
+
+  const history = updateEntryData(
+    entry,
+    Object.fromEntries(
+      changes.map((change) => [change.field, change.current])
+    ) as Partial<VaultEntry>,
+    settings
+  );
+  for (const field of HISTORY_FIELDS) {
+    if (history[field]) {
+      updated[field] = history[field];
+    } else {
+      delete updated[field];
+    }
+  }
+  return updated as unknown as VaultEntry;
+};
+
+/**
+ * Puts a custom field in place, adds it, or removes it
+ */
+const applyCustomField = (
+  fields: CustomField[] = [],
+  fieldId: string,
+  current: CustomField | undefined
+): CustomField[] => {
+  if (!current) {
+    return fields.filter((field) => field.id !== fieldId);
+  }
+  return fields.some((field) => field.id === fieldId)
+    ? fields.map((field) => (field.id === fieldId ? current : field))
+    : [...fields, current];
+};
+
+/**
+ * Applies a single operation to a list of entries
+ * Operations on unknown entries, and additions of entries already present,
+ * are ignored so a log can be replayed more than once.
+ */
+const applyOperation = (
+  entries: VaultEntry[],
+  operation: VaultOperation,
+  settings: Partial<SecuritySettings> | undefined
+): VaultEntry[] => {
+  const id =
+    operation.type === "entryAdded" || operation.type === "entryDeleted"
+      ? operation.entry.id
+      : operation.entryId;
+  const index = entries.findIndex((entry) => entry.id === id);
+
+  if (operation.type === "entryAdded") {
+    return index === -1 ? [...entries, operation.entry] : entries;
+  }
+  if (index === -1) {
+    return entries;
+  }
+
+  const entry = entries[index];
+  let updated: VaultEntry;
+
+  switch (operation.type) {
+    case "entryDeleted":
+      if (!operation.deletedAt) {
+        return entries.filter((_, position) => position !== index);
+      }
+      updated = {
+        ...entry,
+        deletedAt: operation.deletedAt,
+        updatedAt: operation.deletedAt,
+      };
+      break;
+    case "entryUpdated":
+      updated = applyPatches(
+        entry,
+        operation.changes,
+        settings,
+        operation.undo
+      );
+      break;
+    case "customFieldChanged":
+      updated = applyPatches(
+        entry,
+        [
+          ...operation.changes,
+          {
+            field: "customFields",
+            current: applyCustomField(
+              entry.customFields,
+              operation.fieldId,
+              operation.current
+            ),
+          },
+        ],
+        settings,
+        operation.undo
+      );
+      break;
+  }
+
+  const result = [...entries];
+  result[index] = updated;
+  return result;
+};
+
+/**
+ * Replays operations onto a vault (immutable operation)
+ * Password histories and revisions are rebuilt from the replayed changes
+ * with the vault's `settings.security` limits, so they get new ids and dates.
+ * @param vault - Vault to update
+ * @param operations - Operations to apply, in order
+ * @returns Updated Vault (the same instance if no operation applied)
+ */
+export const applyOperations = (
+  vault: Vault,
+  operations: VaultOperation[]
+): Vault => {
+  const entries = operations.reduce(
+    (current, operation) =>
+      applyOperation(current, operation, vault.settings?.security),
+    vault.entries
+  );
+
+  return entries === vault.entries
+    ? vault
+    : { ...vault, entries, updatedAt: new Date() };
+};
+
+/**
+ * Swaps the sides of patches so they undo the original ones
+ */
+const invertPatches = (changes: EntryPatch[]): EntryPatch[] =>
+  changes.map((change) => patch(change.field, change.current, change.previous));
+
+/**
+ * Builds the operation undoing another one
+ * Inverted updates are marked `undo`: applying them removes the history the
+ * original change added instead of recording the undone values.
+ * @param operation - Operation to undo
+ * @returns VaultOperation - Operation restoring the previous state
+ */
+export const invertOperation = (operation: VaultOperation): VaultOperation => {
+  switch (operation.type) {
+    case "entryAdded":
+      return { type: "entryDeleted", entry: operation.entry };
+    case "entryDeleted":
+      return operation.deletedAt
+        ? {
+            type: "entryUpdated",
+            entryId: operation.entry.id,
+            changes: [
+              patch("deletedAt", operation.deletedAt, undefined),
+              patch(
+                "updatedAt",
+                operation.deletedAt,
+                operation.entry.updatedAt
+              ),
+            ],
+            undo: true,
+          }
+        : { type: "entryAdded", entry: operation.entry };
+    case "entryUpdated":
+      return {
+        type: "entryUpdated",
+        entryId: operation.entryId,
+        changes: invertPatches(operation.changes),
+        ...(operation.undo ? {} : { undo: true }),
+      };
+    case "customFieldChanged":
+      return {
+        type: "customFieldChanged",
+        entryId: operation.entryId,
+        fieldId: operation.fieldId,
+        ...(operation.current ? { previous: operation.current } : {}),
+        ...(operation.previous ? { current: operation.previous } : {}),
+        changes: invertPatches(operation.changes),
+        ...(operation.undo ? {} : { undo: true }),
+      };
+  }
+};
+
+/**
+ * Builds the operations undoing a sequence of operations
+ * @param operations - Operations to undo, in the order they were applied
+ * @returns VaultOperation[] - Inverse operations, last one first
+ */
+export const invertOperations = (
+  operations: VaultOperation[]
+): VaultOperation[] => {
+  return [...operations].reverse().map(invertOperation);
+};
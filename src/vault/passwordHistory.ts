@@ -0,0 +1,109 @@
+import {
+  DEFAULT_VAULT_SETTINGS,
+  PasswordHistoryEntry,
+  SecuritySettings,
+  ValidationResult,
+  Vault,
+  VaultEntry,
+} from "../types";
+import { getEntry, updateEntry } from "./vault";
+
+/**
+ * Lists the previous passwords of an entry, most recent first
+ * @param vault - Vault containing the entry
+ * @param entryId - ID of the entry
+ * @returns Previous passwords with the date they were replaced
+ */
+export const getPasswordHistory = (
+  vault: Vault,
+  entryId: string
+): PasswordHistoryEntry[] => {
+  return getEntry(vault, entryId)?.passwordHistory || [];
+};
+
+/**
+ * Restores a previous password of an entry (immutable operation)
+ * The current password takes its place in the history.
+ * @param vault - Vault containing the entry
+ * @param entryId - ID of the entry
+ * @param index - Position in the history (0 is the most recent)
+ * @returns Object with updated vault, updated entry, and validation result
+ */
+export const restorePassword = (
+  vault: Vault,
+  entryId: string,
+  index: number
+): { vault: Vault; entry: VaultEntry; validation: ValidationResult } => {
+  const history = getPasswordHistory(vault, entryId);
+  const previous = history[index];
+
+  if (!previous) {
+    return {
+      vault,
+      entry: null as unknown as VaultEntry,
+      validation: {
+        isValid: false,
+        errors: [
+          {
+            field: "passwordHistory",
+            message: "Password history item not found",
+            code: "PASSWORD_HISTORY_NOT_FOUND",
+          },
+        ],
+        warnings: [],
+      },
+    };
+  }
+
+  return updateEntry(vault, entryId, {
+    password: previous.value,
+    passwordHistory: history.filter((_, position) => position !== index),
+  });
+};
+
+/**
+ * Forgets the previous passwords of an entry (immutable operation)
+ * @param vault - Vault containing the entry
+ * @param entryId - ID of the entry
+ * @returns Object with updated vault, updated entry, and validation result
+ */
+export const clearPasswordHistory = (
+  vault: Vault,
+  entryId: string
+): { vault: Vault; entry: VaultEntry; validation: ValidationResult } => {
+  return updateEntry(vault, entryId, { passwordHistory: [] });
+};
+
+/**
+ * Sets how many previous passwords each entry keeps (immutable operation)
+ * Longer histories are trimmed right away, dropping the oldest passwords.
+ * @param vault - Vault to configure
+ * @param limit - Number of previous passwords to keep (0 disables history)
+ * @returns Updated Vault
+ */
+export const setPasswordHistoryLimit = (vault: Vault, limit: number): Vault => {
+  const passwordHistoryLimit = Math.max(Math.floor(limit), 0);
+  const security = {
+    ...DEFAULT_VAULT_SETTINGS.security,
+    ...vault.settings?.security,
+    passwordHistoryLimit,
+  } as SecuritySettings;
+
+  return {
+    ...vault,
+    settings: { ...vault.settings, security },
+    entries: vault.entries.map((entry) =>
+      entry.passwordHistory &&
+      entry.passwordHistory.length > passwordHistoryLimit
+        ? {
+            ...entry,
+            passwordHistory: entry.passwordHistory.slice(
+              0,
+              passwordHistoryLimit
+            ),
+          }
+        : entry
+    ),
+    updatedAt: new Date(),
+  };
+};
@@ -0,0 +1,111 @@
+import {
+  EntryHistoryItem,
+  ValidationResult,
+  Vault,
+  VaultEntry,
+} from "../types";
+import { diffEntries, ENTRY_REVISION_FIELDS, pruneRevisions } from "./entry";
+import { getEntry, updateEntry } from "./vault";
+
+/**
+ * Lists the changes made to an entry, most recent first
+ * Each item compares a revision with the state that replaced it (the next
+ * revision, or the current entry for the latest one).
+ * @param vault - Vault containing the entry
+ * @param entryId - ID of the entry
+ * @returns EntryHistoryItem[] - Field-level changes of every revision
+ */
+export const getEntryHistory = (
+  vault: Vault,
+  entryId: string
+): EntryHistoryItem[] => {
+  const entry = getEntry(vault, entryId);
+  if (!entry) {
+    return [];
+  }
+
+  const revisions = entry.revisions || [];
+  return revisions.map((revision, index) => ({
+    revisionId: revision.id,
+    changedAt: revision.changedAt,
+    changes: diffEntries(
+      revision.entry,
+      index === 0 ? entry : revisions[index - 1].entry
+    ),
+  }));
+};
+
+/**
+ * Restores an entry to the state stored by a revision (immutable operation)
+ * The current state becomes a new revision, so a restore can be undone.
+ * @param vault - Vault containing the entry
+ * @param entryId - ID of the entry
+ * @param revisionId - ID of the revision to restore
+ * @returns Object with updated vault, updated entry, and validation result
+ */
+export const restoreEntryRevision = (
+  vault: Vault,
+  entryId: string,
+  revisionId: string
+): { vault: Vault; entry: VaultEntry; validation: ValidationResult } => {
+  const revision = getEntry(vault, entryId)?.revisions?.find(
+    (candidate) => candidate.id === revisionId
+  );
+
+  if (!revision) {
+    return {
+      vault,
+      entry: null as unknown as VaultEntry,
+      validation: {
+        isValid: false,
+        errors: [
+          {
+            field: "revisions",
+            message: "Entry revision not found",
+            code: "REVISION_NOT_FOUND",
+          },
+        ],
+        warnings: [],
+      },
+    };
+  }
+
+  // Every tracked field is set, so fields added since the revision are removed
+  const updates = Object.fromEntries(
+    ENTRY_REVISION_FIELDS.map((field) => [field, revision.entry[field]])
+  ) as Partial<VaultEntry>;
+
+  return updateEntry(vault, entryId, updates);
+};
+
+/**
+ * Applies the vault's revision retention settings to every entry
+ * Revisions are pruned on each update; call this to also drop revisions
+ * that became too old since (e.g. before saving the vault).
+ * @param vault - Vault to prune
+ * @returns Updated Vault (the same instance if nothing was dropped)
+ */
+export const pruneEntryRevisions = (vault: Vault): Vault => {
+  const now = new Date();
+  let pruned = false;
+
+  const entries = vault.entries.map((entry) => {
+    if (!entry.revisions) {
+      return entry;
+    }
+
+    const revisions = pruneRevisions(
+      entry.revisions,
+      vault.settings?.security,
+      now
+    );
+    if (revisions.length === entry.revisions.length) {
+      return entry;
+    }
+
+    pruned = true;
+    return { ...entry, revisions };
+  });
+
+  return pruned ? { ...vault, entries, updatedAt: now } : vault;
+};
@@ -5,6 +5,7 @@ import {
   VaultSearchOptions,
   VaultSearchResult,
 } from "../types";
+import { isInTrash } from "./trash";
 
 /**
  * Performs a search on vault entries based on provided options
@@ -22,6 +23,9 @@ export const searchEntries = (
   const query = options.query || "";
   const caseSensitive = options.caseSensitive || false;
   const exactMatch = options.exactMatch || false;
+  const entries = options.includeTrashed
+    ? vault.entries
+    : vault.entries.filter((entry) => !isInTrash(entry));
 
   // If query is empty and no filters, return all entries
   if (
@@ -31,8 +35,8 @@ export const searchEntries = (
     options.favorites === undefined
   ) {
     return {
-      entries: [...vault.entries],
-      totalCount: vault.entries.length,
+      entries: [...entries],
+      totalCount: entries.length,
       searchTime: Date.now() - startTime,
     };
   }
@@ -132,7 +136,7 @@ export const searchEntries = (
   };
 
   // Apply filter to entries
-  const matchingEntries = vault.entries.filter(matches);
+  const matchingEntries = entries.filter(matches);
 
   return {
     entries: matchingEntries,
@@ -152,7 +156,7 @@ export const getEntriesByCategory = (
   category: EntryCategory
 ): VaultEntry[] => {
   return vault.entries.filter(
-    (entry: VaultEntry) => entry.category === category
+    (entry: VaultEntry) => entry.category === category && !isInTrash(entry)
   );
 };
 
@@ -162,7 +166,9 @@ export const getEntriesByCategory = (
  * @returns Array of favorite entries
  */
 export const getFavoriteEntries = (vault: Vault): VaultEntry[] => {
-  return vault.entries.filter((entry: VaultEntry) => entry.favorite === true);
+  return vault.entries.filter(
+    (entry: VaultEntry) => entry.favorite === true && !isInTrash(entry)
+  );
 };
 
 /**
@@ -179,7 +185,9 @@ export const getRecentlyModifiedEntries = (
   cutoffDate.setDate(cutoffDate.getDate() - days);
 
   return vault.entries
-    .filter((entry: VaultEntry) => entry.updatedAt > cutoffDate)
+    .filter(
+      (entry: VaultEntry) => entry.updatedAt > cutoffDate && !isInTrash(entry)
+    )
     .sort(
       (a: VaultEntry, b: VaultEntry) =>
         b.updatedAt.getTime() - a.updatedAt.getTime()
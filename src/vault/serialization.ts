@@ -0,0 +1,95 @@
+import { Vault, VaultOperation } from "../types";
+
+/**
+ * Keys whose string values are revived as Date objects when parsing a vault
+ */
+const DATE_FIELDS = new Set([
+  "createdAt",
+  "updatedAt",
+  "changedAt",
+  "deletedAt",
+]);
+
+/**
+ * JSON reviver restoring Date objects for known date fields
+ */
+const reviveDates = (key: string, value: unknown): unknown => {
+  if (DATE_FIELDS.has(key) && typeof value === "string") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+};
+
+/**
+ * Serializes a vault to a JSON string (dates become ISO strings)
+ * @param vault - Vault to serialize
+ * @returns JSON representation of the vault
+ */
+export const serializeVault = (vault: Vault): string => {
+  return JSON.stringify(vault);
+};
+
+/**
+ * Parses a JSON string produced by serializeVault back into a Vault
+ * @param json - JSON representation of a vault
+ * @returns Vault with Date objects restored
+ * @throws Error if the JSON is not a vault
+ */
+export const deserializeVault = (json: string): Vault => {
+  const parsed = JSON.parse(json, reviveDates);
+
+  if (
+    !parsed ||
+    typeof parsed !== "object" ||
+    typeof parsed.id !== "string" ||
+    !Array.isArray(parsed.entries)
+  ) {
+    throw new Error("Invalid vault data: missing id or entries");
+  }
+
+  return parsed as Vault;
+};
+
+/**
+ * Serializes vault operations to a JSON string (dates become ISO strings)
+ * @param operations - Operations to serialize
+ * @returns JSON representation of the operations
+ */
+export const serializeOperations = (operations: VaultOperation[]): string => {
+  return JSON.stringify(operations);
+};
+
+/**
+ * Parses a JSON string produced by serializeOperations
+ * @param json - JSON representation of operations
+ * @returns VaultOperation[] with Date objects restored, including patched
+ * date fields
+ * @throws Error if the JSON is not a list of operations
+ */
+export const deserializeOperations = (json: string): VaultOperation[] => {
+  const parsed = JSON.parse(json, reviveDates);
+
+  if (
+    !Array.isArray(parsed) ||
+    parsed.some((operation) => typeof operation?.type !== "string")
+  ) {
+    throw new Error("Invalid operation data: expected a list of operations");
+  }
+
+  // Patched values sit under "previous" / "current", not under their field
+  for (const operation of parsed as VaultOperation[]) {
+    if ("changes" in operation) {
+      for (const change of operation.changes) {
+        if ("previous" in change) {
+          change.previous = reviveDates(change.field, change.previous);
+        }
+        if ("current" in change) {
+          change.current = reviveDates(change.field, change.current);
+        }
+      }
+    }
+  }
+
+  return parsed;
+};
@@ -0,0 +1,187 @@
+import {
+  DEFAULT_SESSION_MAX_BYTES,
+  DEFAULT_SESSION_MAX_STEPS,
+  Vault,
+  VaultEntry,
+  VaultMutationResult,
+  VaultSession,
+  VaultSessionOptions,
+} from "../types";
+import { SafeKeysError } from "../utils/errors";
+
+export type VaultSessionErrorCode = "SESSION_GROUP_IN_PROGRESS";
+
+/**
+ * Thrown when a session is used in a way its current state does not allow
+ */
+export class VaultSessionError extends SafeKeysError {
+  declare readonly code: VaultSessionErrorCode;
+
+  constructor(code: VaultSessionErrorCode, message: string) {
+    super(code, message);
+  }
+}
+
+/**
+ * Recorded state with the memory it keeps alive
+ */
+interface SessionStep {
+  vault: Vault;
+  size: number;
+}
+
+/**
+ * Gets the vault produced by a mutation
+ */
+const resultVault = (result: VaultMutationResult): Vault =>
+  "vault" in result ? result.vault : result;
+
+const entrySizes = new WeakMap<VaultEntry, number>();
+
+/**
+ * Estimates the memory used by an entry (UTF-16 size of its JSON form)
+ */
+const entrySize = (entry: VaultEntry): number => {
+  let size = entrySizes.get(entry);
+  if (size === undefined) {
+    size = JSON.stringify(entry).length * 2;
+    entrySizes.set(entry, size);
+  }
+  return size;
+};
+
+/**
+ * Estimates the memory a state keeps alive next to the state it leads to:
+ * the entries the two do not share
+ */
+const retainedSize = (vault: Vault, neighbour: Vault): number => {
+  const shared = new Set(neighbour.entries);
+  return vault.entries.reduce(
+    (size, entry) => (shared.has(entry) ? size : size + entrySize(entry)),
+    0
+  );
+};
+
+/**
+ * Creates an editing session with undo and redo
+ * The session keeps the previous vault states themselves: mutations are
+ * immutable, so unchanged entries are shared between states rather than
+ * copied. Only the last `maxSteps` states are kept, and older ones are also
+ * dropped once the entries the kept states do not share with their
+ * neighbours exceed `maxBytes`. `clear` drops them all so no decrypted state
+ * outlives the session.
+ * @param vault - Initial state of the vault
+ * @param options - Session options
+ * @returns VaultSession editing the vault
+ */
+export const createVaultSession = (
+  vault: Vault,
+  options: VaultSessionOptions = {}
+): VaultSession => {
+  const maxSteps = Math.max(
+    Math.floor(options.maxSteps ?? DEFAULT_SESSION_MAX_STEPS),
+    0
+  );
+  const maxBytes = Math.max(options.maxBytes ?? DEFAULT_SESSION_MAX_BYTES, 0);
+  let current = vault;
+  let past: SessionStep[] = [];
+  let future: SessionStep[] = [];
+  let groupDepth = 0;
+
+  // Drops the oldest states, then the farthest redo states, beyond the limits
+  const trim = () => {
+    let total = [...past, ...future].reduce((sum, step) => sum + step.size, 0);
+    while (past.length > maxSteps || (total > maxBytes && past.length > 0)) {
+      total -= (past.shift() as SessionStep).size;
+    }
+    while (total > maxBytes && future.length > 0) {
+      total -= (future.shift() as SessionStep).size;
+    }
+  };
+
+  const record = (previous: Vault) => {
+    if (previous === current) {
+      return;
+    }
+    past.push({ vault: previous, size: retainedSize(previous, current) });
+    future = [];
+    trim();
+  };
+
+  const assertOutsideGroup = (action: string) => {
+    if (groupDepth > 0) {
+      throw new VaultSessionError(
+        "SESSION_GROUP_IN_PROGRESS",
+        `Cannot ${action} inside a group`
+      );
+    }
+  };
+
+  return {
+    get vault() {
+      return current;
+    },
+
+    get canUndo() {
+      return past.length > 0;
+    },
+
+    get canRedo() {
+      return future.length > 0;
+    },
+
+    apply(mutation) {
+      const previous = current;
+      const result = mutation(current);
+      current = resultVault(result);
+
+      if (groupDepth === 0) {
+        record(previous);
+      }
+      return result;
+    },
+
+    group(run) {
+      const previous = current;
+      groupDepth++;
+      try {
+        return run();
+      } finally {
+        groupDepth--;
+        if (groupDepth === 0) {
+          record(previous);
+        }
+      }
+    },
+
+    undo() {
+      assertOutsideGroup("undo");
+      const previous = past.pop();
+      if (previous) {
+        future.push({
+          vault: current,
+          size: retainedSize(current, previous.vault),
+        });
+        current = previous.vault;
+        trim();
+      }
+      return current;
+    },
+
+    redo() {
+      assertOutsideGroup("redo");
+      const next = future.pop();
+      if (next) {
+        past.push({ vault: current, size: retainedSize(current, next.vault) });
+        current = next.vault;
+        trim();
+      }
+      return current;
+    },
+
+    clear() {
+      past = [];
+      future = [];
+    },
+  };
+};
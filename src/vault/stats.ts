@@ -1,12 +1,28 @@
-import { EntryCategory, Vault, VaultEntry, VaultStats } from "../types";
+import {
+  EntryCategory,
+  Vault,
+  VaultEntry,
+  VaultStats,
+  VaultStatsOptions,
+} from "../types";
+import { isInTrash } from "./trash";
 
 /**
  * Gets comprehensive statistics about the vault
+ * Trashed entries are left out unless `options.includeTrashed` is set.
  * @param vault - Vault to analyze
+ * @param options - Stats options
  * @returns VaultStats object with statistics
  */
-export const getVaultStats = (vault: Vault): VaultStats => {
+export const getVaultStats = (
+  vault: Vault,
+  options: VaultStatsOptions = {}
+): VaultStats => {
   const now = new Date();
+  const trashedEntries = vault.entries.filter(isInTrash).length;
+  const entries = options.includeTrashed
+    ? vault.entries
+    : vault.entries.filter((entry) => !isInTrash(entry));
 
   // Initialiser le compteur de catégories avec toutes les valeurs possibles de l'enum
   const categoryCounts = Object.values(EntryCategory).reduce(
@@ -29,7 +45,7 @@ export const getVaultStats = (vault: Vault): VaultStats => {
   let lastActivity = new Date(0); // Unix epoch start
 
   // Process each entry
-  vault.entries.forEach((entry: VaultEntry) => {
+  entries.forEach((entry: VaultEntry) => {
     // Update last activity
     if (entry.updatedAt > lastActivity) {
       lastActivity = new Date(entry.updatedAt);
@@ -76,7 +92,8 @@ export const getVaultStats = (vault: Vault): VaultStats => {
   ).length;
 
   return {
-    totalEntries: vault.entries.length,
+    totalEntries: entries.length,
+    trashedEntries,
     categoryCounts,
     tagCounts,
     lastActivity,
@@ -93,7 +110,8 @@ export const getVaultStats = (vault: Vault): VaultStats => {
  */
 export const getWeakPasswordEntries = (vault: Vault): VaultEntry[] => {
   return vault.entries.filter(
-    (entry: VaultEntry) => entry.password && isWeakPassword(entry.password)
+    (entry: VaultEntry) =>
+      entry.password && isWeakPassword(entry.password) && !isInTrash(entry)
   );
 };
 
@@ -107,7 +125,7 @@ export const getDuplicatePasswordEntries = (vault: Vault): VaultEntry[][] => {
 
   // Group entries by password
   vault.entries.forEach((entry: VaultEntry) => {
-    if (entry.password) {
+    if (entry.password && !isInTrash(entry)) {
       if (!passwordMap[entry.password]) {
         passwordMap[entry.password] = [];
       }
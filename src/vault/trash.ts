@@ -0,0 +1,169 @@
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  ValidationResult,
+  Vault,
+  VaultEntry,
+  VaultMutationOptions,
+} from "../types";
+import { diffEntryProperties, diffVaults } from "./operations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether an entry has been deleted and sits in the trash
+ * @param entry - Entry to check
+ * @returns True if the entry is in the trash
+ */
+export const isInTrash = (entry: VaultEntry): boolean => {
+  return entry.deletedAt !== undefined;
+};
+
+/**
+ * Permanently removes the trashed entries older than the vault's
+ * `settings.security.trashRetentionDays` (immutable operation)
+ * Called by every deletion; call it before saving to purge idle vaults too.
+ * Opening a vault never purges it, so reading it does not drop data.
+ * @param vault - Vault to purge
+ * @param now - Reference date (now by default)
+ * @returns Updated Vault (the same instance if nothing was purged)
+ */
+export const purgeTrash = (vault: Vault, now: Date = new Date()): Vault => {
+  const days =
+    vault.settings?.security?.trashRetentionDays ??
+    DEFAULT_TRASH_RETENTION_DAYS;
+  if (days <= 0) {
+    return vault;
+  }
+
+  const oldest = now.getTime() - days * DAY_MS;
+  const entries = vault.entries.filter(
+    (entry) => !entry.deletedAt || entry.deletedAt.getTime() >= oldest
+  );
+
+  return entries.length === vault.entries.length
+    ? vault
+    : { ...vault, entries, updatedAt: now };
+};
+
+/**
+ * Moves entries to the trash (immutable operation)
+ * Entries already in the trash keep their deletion date. Expired trashed
+ * entries are purged at the same time.
+ * @param vault - Vault containing the entries
+ * @param entryIds - IDs of the entries to delete
+ * @returns Updated Vault (the same instance if no entry was found)
+ */
+export const moveToTrash = (vault: Vault, entryIds: string[]): Vault => {
+  const ids = new Set(entryIds);
+  const now = new Date();
+  let moved = false;
+
+  const entries = vault.entries.map((entry) => {
+    if (!ids.has(entry.id) || isInTrash(entry)) {
+      return entry;
+    }
+    moved = true;
+    return { ...entry, deletedAt: now, updatedAt: now };
+  });
+
+  if (!moved) {
+    return vault;
+  }
+
+  return purgeTrash({ ...vault, entries, updatedAt: now }, now);
+};
+
+/**
+ * Takes an entry out of the trash (immutable operation)
+ * @param vault - Vault containing the entry
+ * @param entryId - ID of the trashed entry
+ * @param options - Mutation options (`onOperation` receives `entryUpdated`)
+ * @returns Object with updated vault, restored entry, and validation result
+ */
+export const restoreEntry = (
+  vault: Vault,
+  entryId: string,
+  options: VaultMutationOptions = {}
+): { vault: Vault; entry: VaultEntry; validation: ValidationResult } => {
+  const index = vault.entries.findIndex(
+    (entry) => entry.id === entryId && isInTrash(entry)
+  );
+
+  if (index === -1) {
+    return {
+      vault,
+      entry: null as unknown as VaultEntry,
+      validation: {
+        isValid: false,
+        errors: [
+          {
+            field: "id",
+            message: "Entry not found in trash",
+            code: "TRASHED_ENTRY_NOT_FOUND",
+          },
+        ],
+        warnings: [],
+      },
+    };
+  }
+
+  const now = new Date();
+  const { deletedAt: _deletedAt, ...restored } = vault.entries[index];
+  const entry: VaultEntry = { ...restored, updatedAt: now };
+  const entries = [...vault.entries];
+  entries[index] = entry;
+  options.onOperation?.({
+    type: "entryUpdated",
+    entryId,
+    changes: diffEntryProperties(vault.entries[index], entry),
+  });
+
+  return {
+    vault: { ...vault, entries, updatedAt: now },
+    entry,
+    validation: { isValid: true, errors: [], warnings: [] },
+  };
+};
+
+/**
+ * Lists the entries in the trash, most recently deleted first
+ * @param vault - Vault to list
+ * @returns Array of trashed entries
+ */
+export const getTrashedEntries = (vault: Vault): VaultEntry[] => {
+  return vault.entries
+    .filter(isInTrash)
+    .sort(
+      (a, b) =>
+        (b.deletedAt as Date).getTime() - (a.deletedAt as Date).getTime()
+    );
+};
+
+/**
+ * Permanently removes entries from the trash (immutable operation)
+ * @param vault - Vault to clean
+ * @param entryIds - Trashed entries to remove (the whole trash by default)
+ * @param options - Mutation options (`onOperation` receives one
+ * `entryDeleted` per removed entry)
+ * @returns Updated Vault (the same instance if nothing was removed)
+ */
+export const emptyTrash = (
+  vault: Vault,
+  entryIds?: string[],
+  options: VaultMutationOptions = {}
+): Vault => {
+  const ids = entryIds && new Set(entryIds);
+  const entries = vault.entries.filter(
+    (entry) => !isInTrash(entry) || (ids !== undefined && !ids.has(entry.id))
+  );
+
+  if (entries.length === vault.entries.length) {
+    return vault;
+  }
+
+  const updated = { ...vault, entries, updatedAt: new Date() };
+  if (options.onOperation) {
+    diffVaults(vault, updated).forEach(options.onOperation);
+  }
+  return updated;
+};
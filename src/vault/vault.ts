@@ -6,9 +6,16 @@ import {
   Vault,
   VAULT_VERSION,
   VaultEntry,
+  VaultMutationOptions,
 } from "../types";
 import { generateId } from "../utils/id-generator";
-import { createEntry, validateCreateEntryData } from "./entry";
+import { createEntry, updateEntryData, validateCreateEntryData } from "./entry";
+import {
+  diffEntryProperties,
+  diffVaults,
+  toOperationEntry,
+} from "./operations";
+import { isInTrash, moveToTrash } from "./trash";
 
 /**
  * Creates a new vault with default settings
@@ -34,11 +41,13 @@ export const createVault = (data: CreateVaultData): Vault => {
  * Adds a new entry to the vault (immutable operation)
  * @param vault - Vault to add entry to
  * @param entryData - Entry data to add
+ * @param options - Mutation options (`onOperation` receives `entryAdded`)
  * @returns Object with updated vault, new entry, and validation result
  */
 export const addEntry = (
   vault: Vault,
-  entryData: CreateVaultEntryData
+  entryData: CreateVaultEntryData,
+  options: VaultMutationOptions = {}
 ): { vault: Vault; entry: VaultEntry; validation: ValidationResult } => {
   const validation = validateCreateEntryData(entryData);
 
@@ -51,6 +60,10 @@ export const addEntry = (
   }
 
   const newEntry = createEntry(entryData);
+  options.onOperation?.({
+    type: "entryAdded",
+    entry: toOperationEntry(newEntry),
+  });
 
   return {
     vault: {
@@ -65,15 +78,20 @@ export const addEntry = (
 
 /**
  * Updates an existing entry in the vault (immutable operation)
+ * The entry keeps its previous password and state in `passwordHistory` and
+ * `revisions`, within the vault's `settings.security` limits. Trashed
+ * entries cannot be edited until they are restored.
  * @param vault - Vault containing the entry
  * @param entryId - ID of the entry to update
  * @param updateData - Updates to apply to the entry
+ * @param options - Mutation options (`onOperation` receives `entryUpdated`)
  * @returns Object with updated vault, updated entry, and validation result
  */
 export const updateEntry = (
   vault: Vault,
   entryId: string,
-  updateData: Partial<VaultEntry>
+  updateData: Partial<VaultEntry>,
+  options: VaultMutationOptions = {}
 ): { vault: Vault; entry: VaultEntry; validation: ValidationResult } => {
   const entryIndex = vault.entries.findIndex((e) => e.id === entryId);
 
@@ -96,18 +114,30 @@ export const updateEntry = (
   }
 
   const originalEntry = vault.entries[entryIndex];
+  if (isInTrash(originalEntry)) {
+    return {
+      vault,
+      entry: null as unknown as VaultEntry,
+      validation: {
+        isValid: false,
+        errors: [
+          {
+            field: "id",
+            message: "Entry is in the trash",
+            code: "ENTRY_IN_TRASH",
+          },
+        ],
+        warnings: [],
+      },
+    };
+  }
 
-  // Créer une nouvelle date avec 1ms de plus que la date actuelle pour garantir qu'elle est différente
-  const now = new Date();
-  now.setMilliseconds(now.getMilliseconds() + 1);
-
-  const updatedEntry = {
-    ...originalEntry,
-    ...updateData,
-    id: originalEntry.id,
-    createdAt: originalEntry.createdAt,
-    updatedAt: now,
-  };
+  const updatedEntry = updateEntryData(
+    originalEntry,
+    updateData,
+    vault.settings?.security
+  );
+  const now = updatedEntry.updatedAt;
 
   const validation = validateCreateEntryData(updatedEntry);
 
@@ -121,6 +151,11 @@ export const updateEntry = (
 
   const updatedEntries = [...vault.entries];
   updatedEntries[entryIndex] = updatedEntry;
+  options.onOperation?.({
+    type: "entryUpdated",
+    entryId,
+    changes: diffEntryProperties(originalEntry, updatedEntry),
+  });
 
   return {
     vault: {
@@ -134,25 +169,25 @@ export const updateEntry = (
 };
 
 /**
- * Deletes an entry from the vault (immutable operation)
+ * Moves an entry to the trash (immutable operation)
+ * The entry is kept with a `deletedAt` date until it is restored, the trash
+ * is emptied, or the retention period expires.
  * @param vault - Vault containing the entry
  * @param entryId - ID of the entry to delete
- * @returns Updated Vault without the entry
+ * @param options - Mutation options (`onOperation` receives `entryDeleted`,
+ * also for expired trashed entries purged on the way)
+ * @returns Updated Vault
  */
-export const deleteEntry = (vault: Vault, entryId: string): Vault => {
-  const entryIndex = vault.entries.findIndex((e) => e.id === entryId);
-
-  if (entryIndex === -1) {
-    return vault;
+export const deleteEntry = (
+  vault: Vault,
+  entryId: string,
+  options: VaultMutationOptions = {}
+): Vault => {
+  const updated = moveToTrash(vault, [entryId]);
+  if (options.onOperation && updated !== vault) {
+    diffVaults(vault, updated).forEach(options.onOperation);
   }
-
-  const updatedEntries = vault.entries.filter((e) => e.id !== entryId);
-
-  return {
-    ...vault,
-    entries: updatedEntries,
-    updatedAt: new Date(),
-  };
+  return updated;
 };
 
 /**